@@ -2,11 +2,13 @@ import {Tabs, useRouter} from 'expo-router';
 import React, {useCallback, useMemo, useState} from 'react';
 import {Modal, Pressable, View, Text, Platform, StyleSheet, Alert} from 'react-native';
 import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
 
 import {HapticTab} from '@/components/haptic-tab';
 import {IconSymbol} from '@/components/ui/icon-symbol';
 import {Colors} from '@/constants/theme';
 import {useColorScheme} from '@/hooks/use-color-scheme';
+import {importSessionBundle} from '@/lib/bundle';
 
 export default function TabLayout() {
     const colorScheme = useColorScheme();
@@ -22,10 +24,6 @@ export default function TabLayout() {
 
     const onPick = useCallback(async () => {
         try {
-            if (Platform.OS === 'web') {
-                Alert.alert('Not supported on web', 'Please use a native device or simulator to pick an image.');
-                return;
-            }
             setProcessing(true);
             const res = await ImagePicker.launchImageLibraryAsync({
                 mediaTypes: ['images'],
@@ -77,6 +75,33 @@ export default function TabLayout() {
         }
     }, [router]);
 
+    const onImportSession = useCallback(async () => {
+        try {
+            setProcessing(true);
+            const res = await DocumentPicker.getDocumentAsync({
+                type: '*/*',
+                copyToCacheDirectory: true,
+            });
+            if (res.canceled || !res.assets?.[0]?.uri) {
+                setProcessing(false);
+                return;
+            }
+            const ids = await importSessionBundle(res.assets[0].uri);
+            setProcessing(false);
+            setSheetOpen(false);
+            if (ids.length === 1) {
+                router.push({pathname: '/editor', params: {sessionId: String(ids[0])}});
+            } else {
+                Alert.alert('Import complete', `Imported ${ids.length} sessions. Pull down on the home screen to see them.`);
+            }
+        } catch (e) {
+            console.warn('Import failed', e);
+            setProcessing(false);
+            setSheetOpen(false);
+            Alert.alert('Import failed', e instanceof Error ? e.message : 'Could not import the session file.');
+        }
+    }, [router]);
+
     return (
         <>
             <Tabs
@@ -126,6 +151,10 @@ export default function TabLayout() {
                         <Text style={[styles.itemText, {color: fg}]}>Open Camera</Text>
                     </Pressable>
                     <View style={[styles.separator, {backgroundColor: border}]}/>
+                    <Pressable style={styles.item} onPress={processing ? undefined : onImportSession}>
+                        <Text style={[styles.itemText, {color: fg}]}>Import Session File</Text>
+                    </Pressable>
+                    <View style={[styles.separator, {backgroundColor: border}]}/>
                     <Pressable style={styles.item} onPress={() => setSheetOpen(false)}>
                         <Text style={[styles.itemText, {color: fg}]}>Cancel</Text>
                     </Pressable>
@@ -1,4 +1,4 @@
-import React, {useCallback, useMemo, useState} from 'react';
+import React, {useCallback, useEffect, useMemo, useRef, useState} from 'react';
 import {
     Image,
     StyleSheet,
@@ -6,56 +6,552 @@ import {
     Pressable,
     FlatList,
     Dimensions,
-    ActionSheetIOS,
     Alert,
+    Modal,
+    TextInput,
+    ActivityIndicator,
     Platform,
+    ScrollView,
 } from 'react-native';
 import {useFocusEffect} from '@react-navigation/native';
 import {useRouter} from 'expo-router';
 import * as Haptics from 'expo-haptics';
+import * as Sharing from 'expo-sharing';
+import {MaterialIcons} from '@react-native-vector-icons/material-icons';
 
 import {Card} from '@/components/ui/card';
 import {Heading} from '@/components/ui/heading';
 import {Text} from '@/components/ui/text';
 import {ThemedView} from '@/components/themed-view';
 import {EmptyState} from '@/components/empty-state';
-import {listSessions, deleteSession, type SessionRow} from '@/lib/sessions';
+import {RecoverDraftBanner} from '@/components/recover-draft-banner';
+import {useActionSheet} from '@/components/action-sheet';
+import {UndoSnackbar} from '@/components/undo-snackbar';
+import {
+    listSessions,
+    trashSessions,
+    restoreSessions,
+    moveSessions,
+    addSessionTags,
+    getDraft,
+    discardDraft,
+    getSession,
+    renameSession,
+    duplicateSession,
+    listCollections,
+    createCollection,
+    deleteCollection,
+    setSessionCollection,
+    getSessionTags,
+    setSessionTags,
+    parseTags,
+    listTags,
+    type CollectionRow,
+    type DraftRow,
+    type SessionRow,
+    type SessionSort
+} from '@/lib/sessions';
+import {
+    BUNDLE_MIME_TYPE,
+    BUNDLE_UTI,
+    downloadSessionsBundle,
+    exportSessionBundle,
+    exportSessionsBundle
+} from '@/lib/bundle';
+import {downloadUri} from '@/lib/download';
+import {PAPER_SIZES, type PaperSize} from '@/lib/paper-sizes';
+import {loadSkia} from '@/lib/load-skia';
+import {formatRelativeTime} from '@/lib/time';
 
 const PADDING_H = 16;
 const GAP = 12;
+const PAGE_SIZE = 30;
+const SEARCH_DELAY_MS = 250;
+
+const SORT_OPTIONS: { id: SessionSort; label: string }[] = [
+    {id: 'newest', label: 'Newest'},
+    {id: 'oldest', label: 'Oldest'},
+    {id: 'edited', label: 'Recently edited'},
+    {id: 'name', label: 'Name'},
+];
+
+// Single-line text dialog, used for renaming, naming collections and editing tags
+type TextPrompt = {
+    title: string;
+    placeholder: string;
+    submitLabel: string;
+    // Tags may be cleared, everything else needs text
+    allowEmpty?: boolean;
+    onSubmit: (text: string) => void;
+};
 
 export default function HomeScreen() {
     const [sessions, setSessions] = useState<SessionRow[]>([]);
+    // Autosave left behind by an editor that was closed or killed before saving
+    const [draft, setDraft] = useState<{ row: DraftRow; sessionName: string | null } | null>(null);
     const router = useRouter();
 
     const screenW = Dimensions.get('window').width;
     const ITEM_W = useMemo(() => Math.floor((screenW - PADDING_H * 2 - GAP) / 2), [screenW]);
 
+    const [searchText, setSearchText] = useState('');
+    const [search, setSearch] = useState('');
+    const [sort, setSort] = useState<SessionSort>('newest');
+    // undefined shows every session
+    const [collectionId, setCollectionId] = useState<number | undefined>(undefined);
+    const [tag, setTag] = useState<string | undefined>(undefined);
+    const [collections, setCollections] = useState<CollectionRow[]>([]);
+    const [allTags, setAllTags] = useState<string[]>([]);
+    const [hasMore, setHasMore] = useState(false);
+    const [loadingMore, setLoadingMore] = useState(false);
+
+    useEffect(() => {
+        const t = setTimeout(() => setSearch(searchText.trim()), SEARCH_DELAY_MS);
+        return () => clearTimeout(t);
+    }, [searchText]);
+
+    // Bumped by every reload so pages from a superseded query are dropped
+    const requestRef = useRef(0);
+    const queryKeyRef = useRef('');
+    const loadedRef = useRef(0);
+    loadedRef.current = sessions.length;
+
     const refresh = useCallback(async () => {
+        const token = ++requestRef.current;
+        // Coming back to the same query reloads everything already paged in, keeping the scroll position
+        const key = JSON.stringify([sort, search, collectionId, tag]);
+        const limit = key === queryKeyRef.current ? Math.max(PAGE_SIZE, loadedRef.current) : PAGE_SIZE;
+        queryKeyRef.current = key;
         try {
-            const rows = await listSessions();
+            const rows = await listSessions({search, sort, collectionId, tag, limit, offset: 0});
+            if (token !== requestRef.current) return;
             setSessions(rows);
-        } catch {
-            // ignore
+            setHasMore(rows.length === limit);
+        } catch (e) {
+            console.warn('Failed to load sessions', e);
+        }
+    }, [search, sort, collectionId, tag]);
+
+    const loadFilters = useCallback(async () => {
+        try {
+            const [nextCollections, nextTags] = await Promise.all([listCollections(), listTags()]);
+            setCollections(nextCollections);
+            setAllTags(nextTags);
+            // The filtered collection or tag may have gone away meanwhile
+            setCollectionId(prev => (nextCollections.some(c => c.id === prev) ? prev : undefined));
+            setTag(prev => (prev && nextTags.some(t => t.toLowerCase() === prev.toLowerCase()) ? prev : undefined));
+        } catch (e) {
+            console.warn('Failed to load collections and tags', e);
         }
     }, []);
 
+    const loadMore = useCallback(async () => {
+        if (!hasMore || loadingMore) return;
+        const token = requestRef.current;
+        setLoadingMore(true);
+        try {
+            const rows = await listSessions({
+                search,
+                sort,
+                collectionId,
+                tag,
+                limit: PAGE_SIZE,
+                offset: loadedRef.current,
+            });
+            if (token !== requestRef.current) return;
+            setSessions(prev => {
+                const seen = new Set(prev.map(x => x.id));
+                return [...prev, ...rows.filter(x => !seen.has(x.id))];
+            });
+            setHasMore(rows.length === PAGE_SIZE);
+        } catch (e) {
+            console.warn('Failed to load more sessions', e);
+        } finally {
+            setLoadingMore(false);
+        }
+    }, [hasMore, loadingMore, search, sort, collectionId, tag]);
+
+    // Also reruns when the search, sort or filters change
     useFocusEffect(
         useCallback(() => {
-            let mounted = true;
-            (async () => {
+            refresh();
+        }, [refresh])
+    );
+
+    useFocusEffect(
+        useCallback(() => {
+            loadFilters();
+        }, [loadFilters])
+    );
+
+    // Only offered on launch; while the app runs the editor keeps the draft current itself
+    useEffect(() => {
+        (async () => {
+            try {
+                const row = await getDraft();
+                if (!row) return;
+                const session = row.session_id != null ? await getSession(row.session_id) : null;
+                setDraft({row, sessionName: session?.name ?? null});
+            } catch (e) {
+                console.warn('Failed to check for a draft', e);
+            }
+        })();
+    }, []);
+
+    const recoverDraft = useCallback(() => {
+        if (!draft) return;
+        const sessionId = draft.row.session_id;
+        setDraft(null);
+        router.push({
+            pathname: '/editor',
+            params: sessionId != null ? {draft: '1', sessionId: String(sessionId)} : {draft: '1'},
+        });
+    }, [draft, router]);
+
+    const onDiscardDraft = useCallback(async () => {
+        setDraft(null);
+        try {
+            await discardDraft();
+        } catch (e) {
+            console.warn('Failed to discard draft', e);
+        }
+    }, []);
+
+    const shareReferenceSheet = useCallback(async (s: SessionRow, paper: PaperSize) => {
+        try {
+            // Loaded on demand so the home screen doesn't pull in Skia (and on web, CanvasKit)
+            await loadSkia();
+            const {buildSessionReferenceSheet} = await import('@/lib/reference-sheet');
+            const uri = await buildSessionReferenceSheet(s.id, paper);
+            if (!(await Sharing.isAvailableAsync())) {
+                Alert.alert('Sharing not available', 'Sharing is not available on this device.');
+                return;
+            }
+            await Sharing.shareAsync(uri, {
+                mimeType: 'application/pdf',
+                UTI: 'com.adobe.pdf',
+                dialogTitle: 'Share reference sheet',
+            });
+        } catch (e) {
+            console.warn('Reference sheet failed', e);
+            Alert.alert('Export failed', 'Could not create the reference sheet.');
+        }
+    }, []);
+
+    const shareBundle = useCallback(async (s: SessionRow) => {
+        try {
+            if (Platform.OS === 'web') {
+                await downloadSessionsBundle([s.id]);
+                return;
+            }
+            const uri = await exportSessionBundle(s.id);
+            if (!(await Sharing.isAvailableAsync())) {
+                Alert.alert('Sharing not available', 'Sharing is not available on this device.');
+                return;
+            }
+            await Sharing.shareAsync(uri, {
+                mimeType: BUNDLE_MIME_TYPE,
+                UTI: BUNDLE_UTI,
+                dialogTitle: 'Export session',
+            });
+        } catch (e) {
+            console.warn('Session export failed', e);
+            Alert.alert('Export failed', 'Could not package the session.');
+        }
+    }, []);
+
+    // Alert can't hold this many buttons on Android (or any on web)
+    const {showActions, actionSheet} = useActionSheet();
+
+    const choosePaperSize = useCallback((s: SessionRow) => {
+        showActions('Paper size', PAPER_SIZES.map(p => ({
+            label: p.label,
+            onPress: () => shareReferenceSheet(s, p.id),
+        })));
+    }, [showActions, shareReferenceSheet]);
+
+    // Shares the annotated preview, falling back to the working image for sessions without one
+    const shareImage = useCallback(async (s: SessionRow) => {
+        try {
+            const state = JSON.parse(s.state_json);
+            const uri = s.preview_uri || state.currentUri || state.originalUri;
+            // Web images are data URIs and there is no share sheet, so the image is downloaded
+            if (Platform.OS === 'web') {
+                await downloadUri(uri, s.name);
+                return;
+            }
+            if (!(await Sharing.isAvailableAsync())) {
+                Alert.alert('Sharing not available', 'Sharing is not available on this device.');
+                return;
+            }
+            await Sharing.shareAsync(uri, {
+                mimeType: s.preview_uri ? 'image/png' : 'image/jpeg',
+                dialogTitle: 'Share image',
+            });
+        } catch (e) {
+            console.warn('Share failed', e);
+            Alert.alert('Share failed', 'Could not share this session.');
+        }
+    }, []);
+
+    const chooseSort = useCallback(() => {
+        showActions('Sort by', SORT_OPTIONS.map(o => ({
+            label: o.id === sort ? `${o.label} ✓` : o.label,
+            onPress: () => setSort(o.id),
+        })));
+    }, [showActions, sort]);
+
+    const chooseTag = useCallback(() => {
+        showActions('Filter by tag', [
+            {label: tag ? 'All tags' : 'All tags ✓', onPress: () => setTag(undefined)},
+            ...allTags.map(t => ({
+                label: t === tag ? `#${t} ✓` : `#${t}`,
+                onPress: () => setTag(t),
+            })),
+        ]);
+    }, [showActions, allTags, tag]);
+
+    // Text dialog state
+    const [prompt, setPrompt] = useState<TextPrompt | null>(null);
+    const [promptText, setPromptText] = useState('');
+    const openPrompt = useCallback((next: TextPrompt, initial = '') => {
+        setPromptText(initial);
+        setPrompt(next);
+    }, []);
+    const submitPrompt = useCallback(() => {
+        if (!prompt || (!prompt.allowEmpty && !promptText.trim())) return;
+        setPrompt(null);
+        prompt.onSubmit(promptText.trim());
+    }, [prompt, promptText]);
+
+    const newCollection = useCallback((then?: (id: number) => Promise<void>) => {
+        openPrompt({
+            title: 'New collection',
+            placeholder: 'Collection name',
+            submitLabel: 'Create',
+            onSubmit: async (name) => {
                 try {
-                    const rows = await listSessions();
-                    if (mounted) setSessions(rows);
-                } catch {
-                    // ignore
+                    const id = await createCollection(name);
+                    await loadFilters();
+                    if (then) await then(id);
+                    else setCollectionId(id);
+                } catch (e) {
+                    console.warn('Create collection failed', e);
+                    Alert.alert('Collection failed', 'Could not create the collection.');
                 }
-            })();
-            return () => {
-                mounted = false;
-            };
-        }, [])
-    );
+            },
+        });
+    }, [openPrompt, loadFilters]);
+
+    const onLongPressCollection = useCallback((c: CollectionRow) => {
+        showActions(c.name, [{
+            label: 'Delete collection',
+            destructive: true,
+            onPress: async () => {
+                try {
+                    await deleteCollection(c.id);
+                    if (collectionId === c.id) setCollectionId(undefined);
+                    await loadFilters();
+                } catch (e) {
+                    console.warn('Delete collection failed', e);
+                    Alert.alert('Delete failed', 'Could not delete the collection.');
+                }
+            },
+        }]);
+    }, [showActions, collectionId, loadFilters]);
+
+    const moveToCollection = useCallback((s: SessionRow) => {
+        const move = async (id: number | null) => {
+            try {
+                await setSessionCollection(s.id, id);
+                await refresh();
+            } catch (e) {
+                console.warn('Move failed', e);
+                Alert.alert('Move failed', 'Could not move the session.');
+            }
+        };
+        showActions('Move to collection', [
+            {label: s.collection_id == null ? 'None ✓' : 'None', onPress: () => move(null)},
+            ...collections.map(c => ({
+                label: c.id === s.collection_id ? `${c.name} ✓` : c.name,
+                onPress: () => move(c.id),
+            })),
+            {label: 'New collection…', onPress: () => newCollection(move)},
+        ]);
+    }, [showActions, collections, refresh, newCollection]);
+
+    const editTags = useCallback(async (s: SessionRow) => {
+        let current: string[] = [];
+        try {
+            current = await getSessionTags(s.id);
+        } catch (e) {
+            console.warn('Failed to load tags', e);
+        }
+        openPrompt({
+            title: 'Tags',
+            placeholder: 'Comma separated, e.g. landscape, warm light',
+            submitLabel: 'Save',
+            allowEmpty: true,
+            onSubmit: async (text) => {
+                try {
+                    await setSessionTags(s.id, parseTags(text));
+                    await Promise.all([loadFilters(), refresh()]);
+                } catch (e) {
+                    console.warn('Saving tags failed', e);
+                    Alert.alert('Tags failed', 'Could not save the tags.');
+                }
+            },
+        }, current.join(', '));
+    }, [openPrompt, loadFilters, refresh]);
+
+    const doDuplicate = useCallback(async (s: SessionRow) => {
+        try {
+            await duplicateSession(s.id);
+            await refresh();
+        } catch (e) {
+            console.warn('Duplicate failed', e);
+            Alert.alert('Duplicate failed', 'Could not duplicate the session.');
+        }
+    }, [refresh]);
+
+    const openRename = useCallback((s: SessionRow) => {
+        openPrompt({
+            title: 'Rename session',
+            placeholder: 'Session name',
+            submitLabel: 'Rename',
+            onSubmit: async (name) => {
+                try {
+                    await renameSession(s.id, name);
+                    setSessions(prev => prev.map(x => (x.id === s.id ? {...x, name, updated_at: Date.now()} : x)));
+                } catch (e) {
+                    console.warn('Rename failed', e);
+                    Alert.alert('Rename failed', 'Could not rename the session.');
+                }
+            },
+        }, s.name);
+    }, [openPrompt]);
+
+    // Selection mode: null when off, otherwise the ids of the checked cards
+    const [selected, setSelected] = useState<Set<number> | null>(null);
+    const selectedIds = useMemo(() => [...(selected ?? [])], [selected]);
+    const toggleSelected = useCallback((id: number) => {
+        setSelected(prev => {
+            const next = new Set(prev ?? []);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    }, []);
+    const endSelection = useCallback(() => setSelected(null), []);
+
+    // Last deletion, undoable until the snackbar times out
+    const [undo, setUndo] = useState<{ ids: number[]; message: string } | null>(null);
+    const moveToTrash = useCallback(async (ids: number[], message: string) => {
+        await trashSessions(ids);
+        setSessions(prev => prev.filter(x => !ids.includes(x.id)));
+        setUndo({ids, message});
+    }, []);
+    const onUndo = useCallback(async () => {
+        if (!undo) return;
+        setUndo(null);
+        try {
+            await restoreSessions(undo.ids);
+            await refresh();
+        } catch (e) {
+            console.warn('Undo failed', e);
+            Alert.alert('Undo failed', 'The sessions are still in the Trash.');
+        }
+    }, [undo, refresh]);
+    const dismissUndo = useCallback(() => setUndo(null), []);
+
+    const batchDelete = useCallback(() => {
+        const ids = selectedIds;
+        if (!ids.length) return;
+        const count = `${ids.length} ${ids.length === 1 ? 'session' : 'sessions'}`;
+        showActions(`Delete ${count}?`, [{
+            label: 'Move to Trash',
+            destructive: true,
+            onPress: async () => {
+                try {
+                    await moveToTrash(ids, `${count} moved to Trash`);
+                    endSelection();
+                } catch (e) {
+                    console.warn('Batch delete failed', e);
+                    Alert.alert('Delete failed', 'Could not delete the sessions. Nothing was removed.');
+                }
+            },
+        }]);
+    }, [selectedIds, showActions, endSelection, moveToTrash]);
+
+    const batchMove = useCallback(() => {
+        const ids = selectedIds;
+        if (!ids.length) return;
+        const move = async (id: number | null) => {
+            try {
+                await moveSessions(ids, id);
+                endSelection();
+                await refresh();
+            } catch (e) {
+                console.warn('Batch move failed', e);
+                Alert.alert('Move failed', 'Could not move the sessions.');
+            }
+        };
+        showActions('Move to collection', [
+            {label: 'None', onPress: () => move(null)},
+            ...collections.map(c => ({label: c.name, onPress: () => move(c.id)})),
+            {label: 'New collection…', onPress: () => newCollection(move)},
+        ]);
+    }, [selectedIds, showActions, collections, newCollection, endSelection, refresh]);
+
+    const batchTag = useCallback(() => {
+        const ids = selectedIds;
+        if (!ids.length) return;
+        openPrompt({
+            title: 'Add tags',
+            placeholder: 'Comma separated, e.g. landscape, warm light',
+            submitLabel: 'Add',
+            onSubmit: async (text) => {
+                try {
+                    await addSessionTags(ids, parseTags(text));
+                    endSelection();
+                    await Promise.all([loadFilters(), refresh()]);
+                } catch (e) {
+                    console.warn('Batch tag failed', e);
+                    Alert.alert('Tags failed', 'Could not tag the sessions.');
+                }
+            },
+        });
+    }, [selectedIds, openPrompt, endSelection, loadFilters, refresh]);
+
+    const [batchExporting, setBatchExporting] = useState(false);
+    const batchExport = useCallback(async () => {
+        const ids = selectedIds;
+        if (!ids.length) return;
+        setBatchExporting(true);
+        try {
+            if (Platform.OS === 'web') {
+                await downloadSessionsBundle(ids);
+                endSelection();
+                return;
+            }
+            const uri = await exportSessionsBundle(ids);
+            if (!(await Sharing.isAvailableAsync())) {
+                Alert.alert('Sharing not available', 'Sharing is not available on this device.');
+                return;
+            }
+            await Sharing.shareAsync(uri, {
+                mimeType: BUNDLE_MIME_TYPE,
+                UTI: BUNDLE_UTI,
+                dialogTitle: 'Export sessions',
+            });
+            endSelection();
+        } catch (e) {
+            console.warn('Batch export failed', e);
+            Alert.alert('Export failed', 'Could not package the sessions.');
+        } finally {
+            setBatchExporting(false);
+        }
+    }, [selectedIds, endSelection]);
 
     const onLongPressItem = useCallback(async (s: SessionRow) => {
         // Light haptic feedback when opening options
@@ -67,47 +563,44 @@ export default function HomeScreen() {
 
         const doDelete = async () => {
             try {
-                await deleteSession(s.id);
-                // Optimistic update
-                setSessions(prev => prev.filter(x => x.id !== s.id));
+                await moveToTrash([s.id], `“${s.name}” moved to Trash`);
             } catch (e) {
                 Alert.alert('Delete failed', 'Could not delete the session.');
             }
         };
 
-        if (Platform.OS === 'ios') {
-            ActionSheetIOS.showActionSheetWithOptions(
-                {
-                    title: s.name,
-                    options: ['Cancel', 'Delete'],
-                    destructiveButtonIndex: 1,
-                    cancelButtonIndex: 0,
-                    userInterfaceStyle: 'dark',
-                },
-                (buttonIndex) => {
-                    if (buttonIndex === 1) {
-                        doDelete();
-                    }
-                }
-            );
-        } else {
-            Alert.alert(
-                s.name,
-                undefined,
-                [
-                    {text: 'Cancel', style: 'cancel'},
-                    {text: 'Delete', style: 'destructive', onPress: doDelete},
-                ],
-                {cancelable: true}
-            );
-        }
-    }, []);
+        showActions(s.name, [
+            {label: 'Select', onPress: () => setSelected(new Set([s.id]))},
+            {label: 'Rename', onPress: () => openRename(s)},
+            {label: 'Duplicate', onPress: () => doDuplicate(s)},
+            {label: 'Move to collection', onPress: () => moveToCollection(s)},
+            {label: 'Edit tags', onPress: () => editTags(s)},
+            {label: 'Share', onPress: () => shareImage(s)},
+            // expo-print can only open the browser's print dialog on web, not render a PDF
+            ...(Platform.OS === 'web' ? [] : [{label: 'Reference sheet', onPress: () => choosePaperSize(s)}]),
+            {label: 'Export session', onPress: () => shareBundle(s)},
+            {label: 'Delete', destructive: true, onPress: doDelete},
+        ]);
+    }, [
+        showActions,
+        openRename,
+        doDuplicate,
+        moveToCollection,
+        editTags,
+        shareImage,
+        choosePaperSize,
+        shareBundle,
+        moveToTrash,
+    ]);
 
     const renderItem = useCallback(({item}: { item: SessionRow }) => (
         <Pressable
-            onPress={() => router.push({pathname: '/editor', params: {sessionId: String(item.id)}})}
-            onLongPress={() => onLongPressItem(item)}
-            accessibilityRole="button"
+            onPress={() => selected
+                ? toggleSelected(item.id)
+                : router.push({pathname: '/editor', params: {sessionId: String(item.id)}})}
+            onLongPress={() => (selected ? toggleSelected(item.id) : onLongPressItem(item))}
+            accessibilityRole={selected ? 'checkbox' : 'button'}
+            accessibilityState={selected ? {checked: selected.has(item.id)} : undefined}
             style={{width: ITEM_W}}
         >
             <Card size="md" variant="elevated" style={styles.cardBody}>
@@ -116,25 +609,146 @@ export default function HomeScreen() {
                 ) : (
                     <View style={styles.placeholder}/>
                 )}
+                {selected && (
+                    <View style={styles.check}>
+                        <MaterialIcons
+                            name={selected.has(item.id) ? 'check-circle' : 'radio-button-unchecked'}
+                            size={24}
+                            color={selected.has(item.id) ? '#2563eb' : '#fff'}
+                        />
+                    </View>
+                )}
                 <Text size="sm" className="mt-2 text-typography-600" numberOfLines={1}>
                     {item.name}
                 </Text>
+                <Text size="xs" className="text-typography-400" numberOfLines={1}>
+                    Edited {formatRelativeTime(item.updated_at)}
+                </Text>
             </Card>
         </Pressable>
-    ), [ITEM_W, onLongPressItem, router]);
+    ), [ITEM_W, onLongPressItem, router, selected, toggleSelected]);
 
     const keyExtractor = useCallback((it: SessionRow) => String(it.id), []);
 
     const emptyData = useMemo(() => Array.from({length: 4}).map((_, i) => ({id: -i - 1})), []);
 
+    const sortLabel = SORT_OPTIONS.find(o => o.id === sort)?.label;
+    const filtering = search.length > 0 || searchText.trim().length > 0 || collectionId !== undefined || !!tag;
+
     return (
         <ThemedView style={{flex: 1}}>
-            <Heading size="xl" className="pt-16 pb-6 px-4">
-                Welcome
-            </Heading>
+            <View style={styles.headerRow}>
+                <Heading size="xl" className="pt-16 pb-6 px-4">
+                    {selected ? `${selected.size} selected` : 'Welcome'}
+                </Heading>
+                <View style={styles.headerActions}>
+                    {!selected && (
+                        <Pressable
+                            onPress={() => router.push('/trash')}
+                            accessibilityRole="button"
+                            accessibilityLabel="Trash"
+                            hitSlop={8}
+                        >
+                            <MaterialIcons name="delete-outline" size={22} color="#6b7280"/>
+                        </Pressable>
+                    )}
+                    {!selected && (
+                        <Pressable
+                            onPress={() => router.push('/settings')}
+                            accessibilityRole="button"
+                            accessibilityLabel="Settings"
+                            hitSlop={8}
+                        >
+                            <MaterialIcons name="settings" size={22} color="#6b7280"/>
+                        </Pressable>
+                    )}
+                    {(sessions.length > 0 || selected) && (
+                        <Pressable
+                            onPress={() => setSelected(prev => (prev ? null : new Set()))}
+                            accessibilityRole="button"
+                        >
+                            <Text size="sm" className="font-semibold text-typography-700">
+                                {selected ? 'Done' : 'Select'}
+                            </Text>
+                        </Pressable>
+                    )}
+                </View>
+            </View>
+
+            {draft && (
+                <RecoverDraftBanner
+                    sessionName={draft.sessionName}
+                    updatedAt={draft.row.updated_at}
+                    onRecover={recoverDraft}
+                    onDiscard={onDiscardDraft}
+                />
+            )}
+
+            {(sessions.length > 0 || filtering) && (
+                <View style={styles.searchRow}>
+                    <View style={styles.searchField}>
+                        <MaterialIcons name="search" size={18} color="#9ca3af"/>
+                        <TextInput
+                            value={searchText}
+                            onChangeText={setSearchText}
+                            placeholder="Search names and notes"
+                            placeholderTextColor="#9ca3af"
+                            autoCorrect={false}
+                            returnKeyType="search"
+                            clearButtonMode="while-editing"
+                            style={styles.searchInput}
+                        />
+                    </View>
+                    {(allTags.length > 0 || !!tag) && (
+                        <Pressable onPress={chooseTag} accessibilityRole="button" style={styles.sortButton}>
+                            <MaterialIcons name="sell" size={16} color={tag ? '#111' : '#6b7280'}/>
+                            <Text size="xs" className={tag ? 'text-typography-900' : 'text-typography-600'} numberOfLines={1}>
+                                {tag ? `#${tag}` : 'Tags'}
+                            </Text>
+                        </Pressable>
+                    )}
+                    <Pressable onPress={chooseSort} accessibilityRole="button" style={styles.sortButton}>
+                        <MaterialIcons name="sort" size={18} color="#6b7280"/>
+                        <Text size="xs" className="text-typography-600">{sortLabel}</Text>
+                    </Pressable>
+                </View>
+            )}
+
+            {(sessions.length > 0 || filtering || collections.length > 0) && (
+                <View>
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        contentContainerStyle={styles.collectionRow}
+                    >
+                        {[{id: undefined, name: 'All'}, ...collections].map(c => {
+                            const active = c.id === collectionId;
+                            return (
+                                <Pressable
+                                    key={c.id ?? 'all'}
+                                    onPress={() => setCollectionId(c.id)}
+                                    onLongPress={c.id !== undefined ? () => onLongPressCollection(c as CollectionRow) : undefined}
+                                    style={[styles.collectionChip, active && styles.collectionChipActive]}
+                                >
+                                    <Text size="sm" className={active ? 'text-typography-0' : 'text-typography-700'}>
+                                        {c.name}
+                                    </Text>
+                                </Pressable>
+                            );
+                        })}
+                        <Pressable
+                            onPress={() => newCollection()}
+                            accessibilityLabel="New collection"
+                            style={styles.collectionChip}
+                        >
+                            <MaterialIcons name="add" size={16} color="#6b7280"/>
+                        </Pressable>
+                    </ScrollView>
+                </View>
+            )}
 
             <View style={{flex: 1}}>
-                {sessions.length === 0 ? (
+                {sessions.length === 0 && !filtering ? (
                     <EmptyState/>
                 ) : (
                     <FlatList
@@ -146,9 +760,82 @@ export default function HomeScreen() {
                         contentContainerStyle={{paddingBottom: 24, rowGap: GAP}}
                         onRefresh={refresh}
                         refreshing={false}
+                        onEndReached={loadMore}
+                        onEndReachedThreshold={0.5}
+                        keyboardShouldPersistTaps="handled"
+                        ListEmptyComponent={
+                            <Text size="sm" className="text-typography-500 text-center mt-8">
+                                {search ? `No sessions match “${search}”` : 'No sessions here yet'}
+                            </Text>
+                        }
+                        ListFooterComponent={loadingMore ? <ActivityIndicator style={{marginTop: 8}}/> : null}
                     />
                 )}
             </View>
+
+            {selected && (
+                <View style={styles.batchBar}>
+                    {[
+                        {label: 'Move', icon: 'drive-file-move' as const, onPress: batchMove},
+                        {label: 'Tag', icon: 'sell' as const, onPress: batchTag},
+                        {label: batchExporting ? 'Exporting…' : 'Export', icon: 'ios-share' as const, onPress: batchExport},
+                        {label: 'Delete', icon: 'delete-outline' as const, onPress: batchDelete, destructive: true},
+                    ].map(a => (
+                        <Pressable
+                            key={a.label}
+                            onPress={a.onPress}
+                            disabled={!selected.size || batchExporting}
+                            accessibilityRole="button"
+                            style={[styles.batchButton, (!selected.size || batchExporting) && {opacity: 0.4}]}
+                        >
+                            <MaterialIcons name={a.icon} size={22} color={a.destructive ? '#dc2626' : '#374151'}/>
+                            <Text size="xs" className={a.destructive ? 'text-error-600' : 'text-typography-700'}>
+                                {a.label}
+                            </Text>
+                        </Pressable>
+                    ))}
+                </View>
+            )}
+
+            {undo && (
+                <UndoSnackbar message={undo.message} onUndo={onUndo} onDismiss={dismissUndo}/>
+            )}
+
+            {actionSheet}
+
+            <Modal visible={!!prompt} transparent animationType="fade" onRequestClose={() => setPrompt(null)}>
+                <View style={styles.modalBackdrop}>
+                    <Card size="lg" variant="elevated" style={styles.modalCard}>
+                        <Heading size="md">{prompt?.title}</Heading>
+                        <TextInput
+                            value={promptText}
+                            onChangeText={setPromptText}
+                            autoFocus
+                            selectTextOnFocus
+                            placeholder={prompt?.placeholder}
+                            returnKeyType="done"
+                            onSubmitEditing={submitPrompt}
+                            style={styles.modalInput}
+                        />
+                        <View style={styles.modalActions}>
+                            <Pressable onPress={() => setPrompt(null)} style={styles.modalButton}>
+                                <Text size="sm" className="text-typography-600">Cancel</Text>
+                            </Pressable>
+                            <Pressable
+                                onPress={submitPrompt}
+                                disabled={!prompt?.allowEmpty && !promptText.trim()}
+                                style={[
+                                    styles.modalButton,
+                                    styles.modalPrimary,
+                                    !prompt?.allowEmpty && !promptText.trim() && {opacity: 0.4},
+                                ]}
+                            >
+                                <Text size="sm" className="font-semibold text-typography-0">{prompt?.submitLabel}</Text>
+                            </Pressable>
+                        </View>
+                    </Card>
+                </View>
+            </Modal>
         </ThemedView>
     );
 }
@@ -169,4 +856,111 @@ const styles = StyleSheet.create({
         backgroundColor: '#e5e7eb',
         borderRadius: 8,
     },
+    headerRow: {
+        flexDirection: 'row',
+        alignItems: 'flex-end',
+        justifyContent: 'space-between',
+    },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 16,
+        paddingHorizontal: PADDING_H,
+        paddingBottom: 26,
+    },
+    check: {
+        position: 'absolute',
+        top: 8,
+        right: 8,
+        borderRadius: 12,
+        backgroundColor: 'rgba(0,0,0,0.35)',
+    },
+    batchBar: {
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        paddingVertical: 8,
+        borderTopWidth: StyleSheet.hairlineWidth,
+        borderTopColor: '#d4d4d4',
+    },
+    batchButton: {
+        alignItems: 'center',
+        gap: 2,
+        paddingHorizontal: 12,
+        paddingVertical: 4,
+    },
+    searchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingHorizontal: PADDING_H,
+        marginBottom: 12,
+    },
+    searchField: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        borderWidth: StyleSheet.hairlineWidth,
+        borderColor: '#d4d4d4',
+        borderRadius: 8,
+        paddingHorizontal: 10,
+    },
+    searchInput: {
+        flex: 1,
+        paddingVertical: 8,
+        fontSize: 15,
+    },
+    sortButton: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 8,
+        paddingVertical: 8,
+    },
+    collectionRow: {
+        gap: 8,
+        paddingHorizontal: PADDING_H,
+        paddingBottom: 12,
+    },
+    collectionChip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        backgroundColor: '#f3f4f6',
+    },
+    collectionChipActive: {
+        backgroundColor: '#111',
+    },
+    modalBackdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.4)',
+        justifyContent: 'center',
+        padding: 24,
+    },
+    modalCard: {
+        gap: 12,
+    },
+    modalInput: {
+        borderWidth: StyleSheet.hairlineWidth,
+        borderColor: '#d4d4d4',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 16,
+    },
+    modalActions: {
+        flexDirection: 'row',
+        justifyContent: 'flex-end',
+        gap: 8,
+    },
+    modalButton: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8,
+    },
+    modalPrimary: {
+        backgroundColor: '#111',
+    },
 });
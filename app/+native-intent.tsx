@@ -0,0 +1,8 @@
+// Files opened with the app ("Open with…" / share sheet) arrive as file:// or content:// paths
+// rather than app routes; send them to the session import screen.
+export function redirectSystemPath({path}: { path: string; initial: boolean }) {
+    if (/^(file|content):\/\//.test(path)) {
+        return `/import?uri=${encodeURIComponent(path)}`;
+    }
+    return path;
+}
@@ -1,12 +1,14 @@
 import {DarkTheme, DefaultTheme, ThemeProvider} from '@react-navigation/native';
 import {Stack} from 'expo-router';
 import {StatusBar} from 'expo-status-bar';
+import {useEffect} from 'react';
 import 'react-native-reanimated';
 import {GestureHandlerRootView} from 'react-native-gesture-handler';
 
 import {useColorScheme} from '@/hooks/use-color-scheme';
 
 import {GluestackUIProvider} from '@/components/ui/gluestack-ui-provider';
+import {purgeExpiredTrash} from '@/lib/sessions';
 import '@/global.css';
 
 export const unstable_settings = {
@@ -16,6 +18,11 @@ export const unstable_settings = {
 export default function RootLayout() {
     const colorScheme = useColorScheme();
 
+    // Trash retention runs once per launch; orphaned files are only cleaned up from Settings
+    useEffect(() => {
+        purgeExpiredTrash().catch((e) => console.warn('Trash purge failed', e));
+    }, []);
+
     return (
         <GestureHandlerRootView style={{flex: 1}}>
             <GluestackUIProvider mode="light">
@@ -24,6 +31,9 @@ export default function RootLayout() {
                         <Stack.Screen name="(tabs)" options={{headerShown: false, title: 'Home'}}/>
                         <Stack.Screen name="modal" options={{presentation: 'modal', title: 'Modal'}}/>
                         <Stack.Screen name="editor" options={{title: 'Editor'}}/>
+                        <Stack.Screen name="import" options={{title: 'Import'}}/>
+                        <Stack.Screen name="trash" options={{title: 'Trash'}}/>
+                        <Stack.Screen name="settings" options={{title: 'Settings'}}/>
                     </Stack>
                     <StatusBar style="auto"/>
                 </ThemeProvider>
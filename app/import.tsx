@@ -0,0 +1,46 @@
+import React, {useEffect} from 'react';
+import {ActivityIndicator, Alert, Text, View} from 'react-native';
+import {Stack, useLocalSearchParams, useRouter} from 'expo-router';
+
+import {importSessionBundle} from '@/lib/bundle';
+
+// Landing screen for .chromaframe files opened from other apps
+export default function ImportScreen() {
+    const {uri} = useLocalSearchParams<{ uri?: string }>();
+    const router = useRouter();
+
+    useEffect(() => {
+        if (!uri) {
+            router.replace('/');
+            return;
+        }
+        let cancelled = false;
+        (async () => {
+            try {
+                const ids = await importSessionBundle(uri);
+                if (cancelled) return;
+                if (ids.length === 1) {
+                    router.replace({pathname: '/editor', params: {sessionId: String(ids[0])}});
+                } else {
+                    router.replace('/');
+                    Alert.alert('Import complete', `Imported ${ids.length} sessions.`);
+                }
+            } catch (e) {
+                console.warn('Import failed', e);
+                Alert.alert('Import failed', e instanceof Error ? e.message : 'Could not import the session file.');
+                if (!cancelled) router.replace('/');
+            }
+        })();
+        return () => {
+            cancelled = true;
+        };
+    }, [uri, router]);
+
+    return (
+        <View style={{flex: 1, alignItems: 'center', justifyContent: 'center', backgroundColor: '#000'}}>
+            <Stack.Screen options={{title: 'Import'}}/>
+            <ActivityIndicator size="large" color="#fff"/>
+            <Text style={{color: '#fff', opacity: 0.8, marginTop: 12}}>Importing session…</Text>
+        </View>
+    );
+}
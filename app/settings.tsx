@@ -0,0 +1,120 @@
+import React, {useCallback, useState} from 'react';
+import {ActivityIndicator, Alert, Platform, Pressable, ScrollView, StyleSheet, View} from 'react-native';
+import {Stack, useRouter} from 'expo-router';
+import {useFocusEffect} from '@react-navigation/native';
+
+import {Card} from '@/components/ui/card';
+import {Heading} from '@/components/ui/heading';
+import {Text} from '@/components/ui/text';
+import {ThemedView} from '@/components/themed-view';
+import {collectGarbage, formatBytes, getStorageUsage, type StorageUsage} from '@/lib/maintenance';
+
+export default function SettingsScreen() {
+    const router = useRouter();
+    const [usage, setUsage] = useState<StorageUsage | null>(null);
+    const [cleaning, setCleaning] = useState(false);
+    const [lastCleanup, setLastCleanup] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setUsage(await getStorageUsage());
+        } catch (e) {
+            console.warn('Failed to read storage usage', e);
+        }
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            refresh();
+        }, [refresh])
+    );
+
+    const cleanUp = useCallback(async () => {
+        setCleaning(true);
+        try {
+            const {files, bytes} = await collectGarbage();
+            setLastCleanup(files ? `Removed ${files} unused ${files === 1 ? 'file' : 'files'}, freeing ${formatBytes(bytes)}.` : 'No unused files found.');
+            await refresh();
+        } catch (e) {
+            console.warn('Storage cleanup failed', e);
+            Alert.alert('Cleanup failed', 'Could not clean up unused files.');
+        } finally {
+            setCleaning(false);
+        }
+    }, [refresh]);
+
+    return (
+        <ThemedView style={{flex: 1}}>
+            <Stack.Screen options={{title: 'Settings'}}/>
+            <ScrollView contentContainerStyle={{padding: 16, gap: 16}}>
+                <Card size="md" variant="outline">
+                    <Heading size="sm" className="mb-2">Storage</Heading>
+                    {usage ? (
+                        <>
+                            {usage.items.map(item => (
+                                <View key={item.id} style={styles.row}>
+                                    <Text size="sm" className="text-typography-700">{item.label}</Text>
+                                    <Text size="sm" className="text-typography-500">{formatBytes(item.bytes)}</Text>
+                                </View>
+                            ))}
+                            {usage.items.length > 1 && (
+                                <View style={[styles.row, styles.totalRow]}>
+                                    <Text size="sm" className="font-semibold">Total</Text>
+                                    <Text size="sm" className="font-semibold">{formatBytes(usage.total)}</Text>
+                                </View>
+                            )}
+                        </>
+                    ) : (
+                        <ActivityIndicator style={{marginVertical: 12}}/>
+                    )}
+                    {Platform.OS !== 'web' && (
+                        <>
+                            <Pressable
+                                onPress={cleanUp}
+                                disabled={cleaning}
+                                accessibilityRole="button"
+                                style={[styles.button, cleaning && {opacity: 0.5}]}
+                            >
+                                <Text size="sm" className="font-semibold text-typography-0">
+                                    {cleaning ? 'Cleaning up…' : 'Clean up unused files'}
+                                </Text>
+                            </Pressable>
+                            <Text size="xs" className="mt-2 text-typography-500">
+                                {lastCleanup ?? 'Removes previews, images and temporary files no session uses.'}
+                            </Text>
+                        </>
+                    )}
+                </Card>
+
+                <Pressable onPress={() => router.push('/trash')} accessibilityRole="button">
+                    <Card size="md" variant="outline" style={styles.row}>
+                        <Text size="sm" className="text-typography-700">Trash</Text>
+                        <Text size="sm" className="text-typography-500">›</Text>
+                    </Card>
+                </Pressable>
+            </ScrollView>
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingVertical: 6,
+    },
+    totalRow: {
+        borderTopWidth: StyleSheet.hairlineWidth,
+        borderTopColor: '#d4d4d4',
+        marginTop: 4,
+        paddingTop: 8,
+    },
+    button: {
+        alignItems: 'center',
+        marginTop: 12,
+        paddingVertical: 10,
+        borderRadius: 8,
+        backgroundColor: '#111',
+    },
+});
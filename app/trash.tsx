@@ -0,0 +1,149 @@
+import React, {useCallback, useState} from 'react';
+import {Alert, FlatList, Image, Pressable, StyleSheet, View} from 'react-native';
+import {Stack} from 'expo-router';
+import {useFocusEffect} from '@react-navigation/native';
+
+import {Card} from '@/components/ui/card';
+import {Text} from '@/components/ui/text';
+import {ThemedView} from '@/components/themed-view';
+import {useActionSheet} from '@/components/action-sheet';
+import {
+    listSessions,
+    restoreSessions,
+    purgeSessions,
+    TRASH_RETENTION_MS,
+    type SessionRow
+} from '@/lib/sessions';
+import {formatRelativeTime} from '@/lib/time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysLeft = (deletedAt: number) => {
+    const days = Math.max(0, Math.ceil((deletedAt + TRASH_RETENTION_MS - Date.now()) / DAY_MS));
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+};
+
+export default function TrashScreen() {
+    const [sessions, setSessions] = useState<SessionRow[]>([]);
+    const {showActions, actionSheet} = useActionSheet();
+
+    const refresh = useCallback(async () => {
+        try {
+            setSessions(await listSessions({trashed: true, sort: 'deleted'}));
+        } catch (e) {
+            console.warn('Failed to load trash', e);
+        }
+    }, []);
+
+    useFocusEffect(
+        useCallback(() => {
+            refresh();
+        }, [refresh])
+    );
+
+    const restore = useCallback(async (ids: number[]) => {
+        try {
+            await restoreSessions(ids);
+            setSessions(prev => prev.filter(x => !ids.includes(x.id)));
+        } catch (e) {
+            console.warn('Restore failed', e);
+            Alert.alert('Restore failed', 'Could not restore the session.');
+        }
+    }, []);
+
+    const purge = useCallback(async (ids: number[]) => {
+        try {
+            await purgeSessions(ids);
+            setSessions(prev => prev.filter(x => !ids.includes(x.id)));
+        } catch (e) {
+            console.warn('Purge failed', e);
+            Alert.alert('Delete failed', 'Could not delete the sessions. Nothing was removed.');
+        }
+    }, []);
+
+    const onPressItem = useCallback((s: SessionRow) => {
+        showActions(s.name, [
+            {label: 'Restore', onPress: () => restore([s.id])},
+            {label: 'Delete forever', destructive: true, onPress: () => purge([s.id])},
+        ]);
+    }, [showActions, restore, purge]);
+
+    const emptyTrash = useCallback(() => {
+        const ids = sessions.map(s => s.id);
+        if (!ids.length) return;
+        showActions(`Delete ${ids.length} ${ids.length === 1 ? 'session' : 'sessions'} forever?`, [
+            {label: 'Empty Trash', destructive: true, onPress: () => purge(ids)},
+        ]);
+    }, [sessions, showActions, purge]);
+
+    const renderItem = useCallback(({item}: { item: SessionRow }) => (
+        <Pressable onPress={() => onPressItem(item)} accessibilityRole="button" style={{flex: 1}}>
+            <Card size="sm" variant="outline" style={styles.row}>
+                {item.preview_uri ? (
+                    <Image source={{uri: item.preview_uri}} style={styles.thumb} resizeMode="cover"/>
+                ) : (
+                    <View style={[styles.thumb, styles.placeholder]}/>
+                )}
+                <View style={{flex: 1}}>
+                    <Text size="sm" className="text-typography-700" numberOfLines={1}>{item.name}</Text>
+                    <Text size="xs" className="text-typography-400" numberOfLines={1}>
+                        Deleted {formatRelativeTime(item.deleted_at ?? 0)} · removed
+                        in {daysLeft(item.deleted_at ?? 0)}
+                    </Text>
+                </View>
+                <Pressable onPress={() => restore([item.id])} accessibilityRole="button" hitSlop={8}>
+                    <Text size="sm" className="font-semibold text-typography-700">Restore</Text>
+                </Pressable>
+            </Card>
+        </Pressable>
+    ), [onPressItem, restore]);
+
+    return (
+        <ThemedView style={{flex: 1}}>
+            <Stack.Screen
+                options={{
+                    title: 'Trash',
+                    headerRight: () => sessions.length ? (
+                        <Pressable onPress={emptyTrash} accessibilityRole="button" style={{paddingHorizontal: 8}}>
+                            <Text size="sm" className="font-semibold text-error-600">Empty</Text>
+                        </Pressable>
+                    ) : null,
+                }}
+            />
+            <FlatList
+                data={sessions}
+                renderItem={renderItem}
+                keyExtractor={it => String(it.id)}
+                contentContainerStyle={{padding: 16, gap: 8}}
+                onRefresh={refresh}
+                refreshing={false}
+                ListHeaderComponent={
+                    <Text size="xs" className="text-typography-500 mb-2">
+                        Deleted sessions are removed permanently after 30 days.
+                    </Text>
+                }
+                ListEmptyComponent={
+                    <Text size="sm" className="text-typography-500 text-center mt-8">Trash is empty</Text>
+                }
+            />
+            {actionSheet}
+        </ThemedView>
+    );
+}
+
+const styles = StyleSheet.create({
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+    },
+    thumb: {
+        width: 56,
+        height: 56,
+        borderRadius: 6,
+        backgroundColor: '#0b0b0b',
+    },
+    placeholder: {
+        backgroundColor: '#e5e7eb',
+    },
+});
@@ -0,0 +1,137 @@
+import React, { useCallback, useState } from 'react';
+import { ActionSheetIOS, Modal, Platform, Pressable, StyleSheet, Text, View } from 'react-native';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+
+export type ActionSheetOption = {
+  label: string;
+  destructive?: boolean;
+  onPress: () => void;
+};
+
+type Props = {
+  visible: boolean;
+  title?: string;
+  options: ActionSheetOption[];
+  onClose: () => void;
+};
+
+// Bottom sheet for Android and web, where Alert can't hold more than three buttons (or any, on web)
+export function ActionSheet({ visible, title, options, onClose }: Props) {
+  const colorScheme = useColorScheme();
+  const bg = colorScheme === 'dark' ? '#111' : '#fff';
+  const fg = colorScheme === 'dark' ? '#fff' : '#111';
+  const border = colorScheme === 'dark' ? '#222' : '#e5e5e5';
+
+  return (
+    <Modal transparent visible={visible} animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { backgroundColor: bg, borderColor: border }]}>
+        <View style={styles.grabber} />
+        {title ? <Text style={[styles.title, { color: fg }]} numberOfLines={1}>{title}</Text> : null}
+        {options.map((o) => (
+          <React.Fragment key={o.label}>
+            <View style={[styles.separator, { backgroundColor: border }]} />
+            <Pressable
+              style={styles.item}
+              accessibilityRole="button"
+              onPress={() => {
+                onClose();
+                o.onPress();
+              }}
+            >
+              <Text style={[styles.itemText, { color: o.destructive ? '#ff3b30' : fg }]}>{o.label}</Text>
+            </Pressable>
+          </React.Fragment>
+        ))}
+        <View style={[styles.separator, { backgroundColor: border }]} />
+        <Pressable style={styles.item} accessibilityRole="button" onPress={onClose}>
+          <Text style={[styles.itemText, { color: fg, fontWeight: '400' }]}>Cancel</Text>
+        </Pressable>
+      </View>
+    </Modal>
+  );
+}
+
+/**
+ * iOS uses the native action sheet, other platforms the ActionSheet modal; render `actionSheet`
+ * somewhere in the screen for the latter.
+ */
+export function useActionSheet() {
+  const [sheet, setSheet] = useState<{ title?: string; options: ActionSheetOption[] } | null>(null);
+  const showActions = useCallback((title: string, options: ActionSheetOption[]) => {
+    if (Platform.OS === 'ios') {
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          title,
+          options: ['Cancel', ...options.map((o) => o.label)],
+          destructiveButtonIndex: options.findIndex((o) => o.destructive) + 1 || undefined,
+          cancelButtonIndex: 0,
+          userInterfaceStyle: 'dark',
+        },
+        (buttonIndex) => {
+          if (buttonIndex > 0) options[buttonIndex - 1].onPress();
+        }
+      );
+    } else {
+      setSheet({ title, options });
+    }
+  }, []);
+  const actionSheet = (
+    <ActionSheet
+      visible={!!sheet}
+      title={sheet?.title}
+      options={sheet?.options ?? []}
+      onClose={() => setSheet(null)}
+    />
+  );
+  return { showActions, actionSheet };
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  sheet: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingBottom: 24,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  grabber: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#888',
+    marginVertical: 8,
+    opacity: 0.5,
+  },
+  title: {
+    textAlign: 'center',
+    fontSize: 13,
+    opacity: 0.6,
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+  },
+  item: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+  },
+  itemText: {
+    fontSize: 16,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  separator: {
+    height: StyleSheet.hairlineWidth,
+  },
+});
@@ -0,0 +1,29 @@
+import React from 'react';
+import {StyleSheet, View} from 'react-native';
+import Svg, {G, Line, Path} from 'react-native-svg';
+
+import {goldenSpiralPath, gridLines, spiralTransform, type GridConfig} from '@/lib/grids';
+
+// Composition overlay drawn above the crop frame or the drawing canvas
+export function CompositionGrid({config, width, height}: { config: GridConfig; width: number; height: number }) {
+    const lines = gridLines(config, width, height);
+    return (
+        <View pointerEvents="none" style={StyleSheet.absoluteFillObject}>
+            <Svg width={width} height={height}>
+                <G opacity={config.opacity}>
+                    {lines.map((l, i) => (
+                        <Line key={i} x1={l.x1} y1={l.y1} x2={l.x2} y2={l.y2} stroke={config.color} strokeWidth={1}/>
+                    ))}
+                    {config.kind === 'spiral' && (
+                        <G transform={spiralTransform(config.spiralRotation, width, height)}>
+                            <Path d={goldenSpiralPath(width, height)} stroke={config.color} strokeWidth={1.5}
+                                  fill="none"/>
+                        </G>
+                    )}
+                </G>
+            </Svg>
+        </View>
+    );
+}
+
+export default CompositionGrid;
@@ -0,0 +1,2368 @@
+import React, {useState, useRef, useEffect, useImperativeHandle, useMemo} from 'react';
+import {
+    Dimensions,
+    StyleSheet,
+    View,
+    Pressable,
+    Text,
+    TextInput,
+    ActivityIndicator,
+    Platform,
+    Image,
+    Alert,
+    ScrollView,
+    Keyboard,
+    KeyboardAvoidingView,
+    TouchableWithoutFeedback,
+    Modal,
+    AppState
+} from 'react-native';
+import {useLocalSearchParams, useRouter, Stack} from 'expo-router';
+import {Gesture, GestureDetector} from 'react-native-gesture-handler';
+import {
+    CropZoom,
+    useImageResolution,
+    type CropContextResult,
+    type CropZoomRefType
+} from 'react-native-zoom-toolkit';
+import {runOnJS} from 'react-native-reanimated';
+import {manipulateAsync, FlipType, SaveFormat} from 'expo-image-manipulator';
+import {
+    Canvas,
+    Image as SkiaImage,
+    useImage,
+    Path as SkiaPath,
+    Skia,
+    Group,
+    useCanvasRef,
+    Circle,
+    Line,
+    RuntimeShader,
+    AlphaType,
+    ColorType,
+    type SkPath,
+} from '@shopify/react-native-skia';
+import {MaterialIcons} from '@react-native-vector-icons/material-icons'
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as ImagePicker from 'expo-image-picker';
+import {
+    ensurePreviewDir,
+    saveSession,
+    getSession,
+    updateSession,
+    repairSessionAssets,
+    relinkSessionImage,
+    saveDraft,
+    getDraft,
+    clearDraft,
+    listCollections,
+    createCollection,
+    parseTags,
+    type CollectionRow,
+    type EditorState,
+    type EditorStroke,
+    type EditorSwatch
+} from '@/lib/sessions';
+import {readColor, hexToRgb, formatRgb, formatHsl, type ColorReading} from '@/lib/color';
+import {addSwatch, makeSwatchId, removeSwatch, sortSwatches, togglePinned} from '@/lib/swatches';
+import {
+    affineScale,
+    affineToMatrix3,
+    applyAffine,
+    cropAffine,
+    homographyFromQuads,
+    imageUnitsToView,
+    invertAffine,
+    viewToImagePoint,
+    type Affine,
+    type Point,
+    type Size
+} from '@/lib/geometry';
+import {hasLegacyUnits, migrateLegacyStrokes} from '@/lib/strokes';
+import {EXPORT_SIZE_PRESETS, outputSize, renderComposite, type ExportSize} from '@/lib/render';
+import {
+    DEFAULT_EXPORT_QUALITY,
+    EXPORT_FORMATS,
+    buildLayeredSvg,
+    downloadExport,
+    encodeImage,
+    formatInfo,
+    hasQuality,
+    writeImagePdf,
+    writeRasterExport,
+    writeSvgExport,
+    type ExportFormat
+} from '@/lib/export';
+import {
+    DEFAULT_VALUE_STUDY,
+    MAX_VALUE_LEVELS,
+    MIN_VALUE_LEVELS,
+    VALUE_PRESETS,
+    VALUE_STUDY_SKSL,
+    clampLevels,
+    posterizeValue,
+    type ValueStudy
+} from '@/lib/value-study';
+import {
+    DEFAULT_PALETTE_SIZE,
+    PALETTE_SIZES,
+    extractPalette,
+    pixelsFromRgba,
+    type PaletteColor
+} from '@/lib/palette';
+import {DEFAULT_GRID, GRID_COLORS, GRID_KINDS, type GridConfig} from '@/lib/grids';
+import {
+    COMPARE_MODES,
+    DEFAULT_COMPARE_OPACITY,
+    UNIT_QUAD,
+    fitCorners,
+    isConvexQuad,
+    sidePanels,
+    type CompareSettings
+} from '@/lib/compare';
+import {CompositionGrid} from '@/components/composition-grid';
+import {
+    ASPECT_PRESETS,
+    DEFAULT_ASPECT,
+    applyPreset,
+    fitAspect,
+    isLandscape,
+    rotateAspect,
+    type CanvasAspect
+} from '@/lib/aspect';
+import {
+    EMPTY_HISTORY,
+    commandLabel,
+    parseHistory,
+    pushCommand,
+    stepBack,
+    stepForward,
+    type EditorCommand,
+    type EditorDoc,
+    type EditorHistory
+} from '@/lib/history';
+
+const {width: WINDOW_W, height: WINDOW_H} = Dimensions.get('window');
+// Browser windows are wide and short, so on web the canvas is capped by the window height instead
+const SCREEN_W = Platform.OS === 'web' ? Math.min(WINDOW_W, 900) : WINDOW_W;
+const CANVAS_H = Platform.OS === 'web'
+    ? Math.min(SCREEN_W * 1.5, Math.max(320, WINDOW_H - 240))
+    : SCREEN_W * 1.5;
+// Eyedropper loupe geometry
+const LOUPE_R = 48;
+const LOUPE_ZOOM = 4;
+const LOUPE_OFFSET = 72;
+// Touch radius of the compare alignment handles
+const HANDLE_HIT_R = 40;
+// Width of the downscaled copy used for palette quantization
+const PALETTE_SAMPLE_W = 96;
+// Bounds for a custom export long edge, in pixels
+const MIN_CUSTOM_EXPORT = 256;
+const MAX_CUSTOM_EXPORT = 8192;
+
+// Quiet period before unsaved changes are written to the draft slot
+const AUTOSAVE_DELAY_MS = 1500;
+
+// expo-print can only open the print dialog in a browser, not produce a file
+const AVAILABLE_EXPORT_FORMATS = Platform.OS === 'web'
+    ? EXPORT_FORMATS.filter((f) => f.format !== 'pdf')
+    : EXPORT_FORMATS;
+
+// Horizontal slider for integer adjustments, built on the adjust* styles
+function AdjustSlider({value, min, max, onChange}: {
+    value: number;
+    min: number;
+    max: number;
+    onChange: (v: number) => void;
+}) {
+    const trackW = styles.adjustTrack.width;
+    const ratio = (value - min) / (max - min);
+    const update = (x: number) => {
+        const r = Math.max(0, Math.min(1, x / trackW));
+        onChange(Math.round(min + r * (max - min)));
+    };
+    return (
+        <View
+            style={styles.adjustTrack}
+            onStartShouldSetResponder={() => true}
+            onMoveShouldSetResponder={() => true}
+            onResponderGrant={(e) => update(e.nativeEvent.locationX)}
+            onResponderMove={(e) => update(e.nativeEvent.locationX)}
+        >
+            <View pointerEvents="none" style={[styles.adjustFill, {width: ratio * trackW}]}/>
+            <View pointerEvents="none" style={[styles.adjustThumb, {left: ratio * trackW}]}/>
+        </View>
+    );
+}
+
+// Compact -/+ control for small integer settings
+function Stepper({label, value, min, max, onChange}: {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    onChange: (v: number) => void;
+}) {
+    return (
+        <View style={styles.stepper}>
+            <Pressable style={styles.stepperBtn} onPress={() => onChange(Math.max(min, value - 1))}
+                       disabled={value <= min}>
+                <MaterialIcons name="remove" size={16} color="#fff"/>
+            </Pressable>
+            <Text style={styles.toolText}>{value}{label}</Text>
+            <Pressable style={styles.stepperBtn} onPress={() => onChange(Math.min(max, value + 1))}
+                       disabled={value >= max}>
+                <MaterialIcons name="add" size={16} color="#fff"/>
+            </Pressable>
+        </View>
+    );
+}
+
+interface Stroke {
+    path: SkPath;
+    color: string;
+    width: number;
+}
+
+// True when the crop frame covers the whole image with no rotation or flip applied
+function isIdentityCrop(ctx: CropContextResult, resolution?: { width: number; height: number }) {
+    // Crop values are expressed in the resized image when a fixed output width is requested
+    const base = ctx.resize ?? resolution;
+    if (!base) return false;
+    const angle = ((Math.round(ctx.context.rotationAngle) % 360) + 360) % 360;
+    return angle === 0
+        && !ctx.context.flipHorizontal
+        && !ctx.context.flipVertical
+        && Math.abs(ctx.crop.originX) < 1
+        && Math.abs(ctx.crop.originY) < 1
+        && Math.abs(ctx.crop.width - base.width) < 2
+        && Math.abs(ctx.crop.height - base.height) < 2;
+}
+
+// Move strokes along with the image content; strokes left entirely outside `bounds` are dropped
+function transformStrokes(list: Stroke[], m: Affine, bounds: Size): Stroke[] {
+    const matrix = affineToMatrix3(m);
+    const k = affineScale(m);
+    const out: Stroke[] = [];
+    for (const s of list) {
+        const path = s.path.copy().transform(matrix);
+        const width = s.width * k;
+        const b = path.computeTightBounds();
+        const pad = width / 2;
+        const visible = b.x + b.width + pad >= 0
+            && b.y + b.height + pad >= 0
+            && b.x - pad <= bounds.width
+            && b.y - pad <= bounds.height;
+        if (visible) out.push({path, color: s.color, width});
+    }
+    return out;
+}
+
+function serializeStroke(s: Stroke): EditorStroke {
+    return {
+        pathSvg: (s.path as any)?.toSVGString ? (s.path as any).toSVGString() : '',
+        color: s.color,
+        width: s.width,
+    };
+}
+
+function deserializeStrokes(list: EditorStroke[] | undefined): Stroke[] {
+    const restored: Stroke[] = [];
+    if (Array.isArray(list)) {
+        for (const s of list) {
+            const p = (Skia as any).Path?.MakeFromSVGString
+                ? (Skia as any).Path.MakeFromSVGString(s.pathSvg)
+                : null;
+            if (p) restored.push({path: p, color: s.color, width: s.width});
+        }
+    }
+    return restored;
+}
+
+// 1. Create a new component for the editor UI and logic.
+// This component will only be rendered when Skia is ready.
+const Editor = React.forwardRef(({imageUri, initialState, sessionId, recovered, onDirtyChange, onSessionCreated}: {
+    imageUri?: string;
+    initialState?: EditorState;
+    // Saved session being edited, so its draft can be matched up on recovery
+    sessionId?: number;
+    // Opened from the autosave draft, so it starts out unsaved
+    recovered?: boolean;
+    onDirtyChange?: (dirty: boolean) => void;
+    // Called with the new row once the save dialog has created a session
+    onSessionCreated?: (id: number) => void;
+}, ref: React.Ref<{ openSaveDialog: () => void; saveWithoutPrompt: (sessionId: number) => Promise<void> }>) => {
+    // Keep the original uri to support full reset
+    const originalUriRef = useRef<string>(imageUri ?? '');
+    // Working image uri that reflects applied crops
+    const [currentUri, setCurrentUri] = useState<string>(imageUri ?? '');
+
+    // All Skia-related hooks are now safely called here.
+    const image = useImage(currentUri);
+
+    // Hydrate from an initial saved state when provided
+    const [hydrated, setHydrated] = useState(!initialState);
+    useEffect(() => {
+        if (initialState) {
+            try {
+                originalUriRef.current = initialState.originalUri || initialState.currentUri;
+                setCurrentUri(initialState.currentUri || initialState.originalUri);
+                setNoteText(initialState.noteText ?? '');
+                setStrokes(deserializeStrokes(initialState.strokes));
+                setSwatches(Array.isArray(initialState.swatches) ? initialState.swatches : []);
+                setValueStudy(initialState.valueStudy ?? DEFAULT_VALUE_STUDY);
+                setPalette(Array.isArray(initialState.palette) ? initialState.palette : []);
+                setGrid({...DEFAULT_GRID, ...initialState.grid});
+                setCompare(initialState.compare ?? null);
+                setAspect(initialState.canvas?.aspect ?? DEFAULT_ASPECT);
+                setHistory(parseHistory(initialState.history));
+                setActivePath(null);
+                setActiveTool('none');
+            } catch (e) {
+                console.warn('Failed to hydrate editor state', e);
+            }
+            setHydrated(true);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [initialState?.currentUri]);
+
+    // Ref to capture the canvas as an image for sharing
+    const canvasRef = useCanvasRef();
+
+    // CropZoom setup for grid tool
+    const cropRef = useRef<CropZoomRefType>(null);
+    // Crop frame and drawing canvas follow the chosen support aspect, fitted to the editor area
+    const [aspect, setAspect] = useState<CanvasAspect>(DEFAULT_ASPECT);
+    const canvasSize = fitAspect(aspect, {width: SCREEN_W, height: CANVAS_H});
+    const canvasW = canvasSize.width;
+    const canvasH = canvasSize.height;
+    const cropSize = canvasSize;
+
+    // Robust resolution resolver with fallback + cache (handles file:// URIs)
+    const resolutionCacheRef = useRef<Record<string, { width: number; height: number }>>({});
+    const {resolution: hookResolution} = useImageResolution({uri: currentUri});
+    const [fallbackResolution, setFallbackResolution] = useState<{
+        width: number;
+        height: number
+    } | undefined>(undefined);
+
+    useEffect(() => {
+        // Cache successful hook resolutions
+        if (hookResolution && currentUri) {
+            resolutionCacheRef.current[currentUri] = hookResolution;
+            setFallbackResolution(undefined);
+        }
+    }, [hookResolution, currentUri]);
+
+    useEffect(() => {
+        // If hook didn't resolve (common with some local URIs), try Image.getSize
+        if (!hookResolution && currentUri) {
+            if (resolutionCacheRef.current[currentUri]) {
+                setFallbackResolution(resolutionCacheRef.current[currentUri]);
+                return;
+            }
+            Image.getSize(
+                currentUri,
+                (width, height) => {
+                    const res = {width, height};
+                    resolutionCacheRef.current[currentUri] = res;
+                    setFallbackResolution(res);
+                },
+                () => {
+                    // Keep undefined; CropZoom won't render until we have a resolution
+                    setFallbackResolution(undefined);
+                }
+            );
+        }
+    }, [hookResolution, currentUri]);
+
+    const resolvedResolution = hookResolution || fallbackResolution || resolutionCacheRef.current[currentUri];
+
+    // Snapshot of everything that gets persisted with a session
+    const buildEditorState = (): EditorState => {
+        return {
+            originalUri: originalUriRef.current,
+            currentUri,
+            noteText,
+            // Serialize strokes to SVG strings
+            strokes: strokes.map(serializeStroke),
+            canvas: {width: canvasW, height: canvasH, aspect},
+            swatches,
+            valueStudy,
+            palette,
+            grid,
+            compare: compare ?? undefined,
+            history,
+            strokeUnits: 'image',
+            swatchUnits: 'image',
+        };
+    };
+
+    useImperativeHandle(ref, () => ({
+        openSaveDialog: () => setSaveVisible(true),
+        saveWithoutPrompt: async (sessionId: number) => {
+            try {
+                setSaving(true);
+                // If currently in grid, apply crop to bake state
+                if (activeTool === 'grid') {
+                    await applyCropAndSwitch('none');
+                    await new Promise((r) => requestAnimationFrame(() => r(null)));
+                }
+                // Ensure canvas has latest frame
+                await new Promise((r) => requestAnimationFrame(() => r(null)));
+                let previewUri: string | undefined = undefined;
+                if (canvasRef.current) {
+                    const snapshot = canvasRef.current.makeImageSnapshot();
+                    const base64 = snapshot?.encodeToBase64 ? snapshot.encodeToBase64() : undefined;
+                    if (base64) {
+                        previewUri = await writePreview(base64);
+                    }
+                }
+                await updateSession(sessionId, buildEditorState(), previewUri);
+                markSaved();
+                Alert.alert('Updated', 'Your session has been updated.');
+            } catch (e) {
+                console.warn('Update session failed', e);
+                Alert.alert('Save failed', 'Could not update your session.');
+            } finally {
+                setSaving(false);
+            }
+        },
+    }));
+
+    const [strokes, setStrokes] = useState<Stroke[]>([]);
+    // Unified undo/redo over the document (strokes, crops, notes, adjustments)
+    const [history, setHistory] = useState<EditorHistory>(EMPTY_HISTORY);
+    const record = (cmd: EditorCommand) => setHistory((h) => pushCommand(h, cmd));
+    // Note text when the notes tool was opened, committed as one history step on close
+    const noteBaselineRef = useRef('');
+    const [activePath, setActivePath] = useState<SkPath | null>(null);
+
+    const [activeTool, setActiveTool] = useState('grid');
+    const [applyingCrop, setApplyingCrop] = useState(false);
+
+    const [brushWidth, setBrushWidth] = useState(6);
+    const [brushColor, setBrushColor] = useState('#aaa');
+    const [exporting, setExporting] = useState(false);
+    // Export dialog state
+    const [exportVisible, setExportVisible] = useState(false);
+    const [exportSize, setExportSize] = useState<ExportSize | 'custom'>('original');
+    const [customExportSize, setCustomExportSize] = useState('3000');
+    const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
+    const [exportQuality, setExportQuality] = useState(DEFAULT_EXPORT_QUALITY);
+    // Save modal state
+    const [saveVisible, setSaveVisible] = useState(false);
+    const [saveName, setSaveName] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [saveCollectionId, setSaveCollectionId] = useState<number | null>(null);
+    const [saveTags, setSaveTags] = useState('');
+    const [collections, setCollections] = useState<CollectionRow[]>([]);
+    // Non-null while typing the name of a collection to create from the save dialog
+    const [newCollectionName, setNewCollectionName] = useState<string | null>(null);
+    // Notes state
+    const [noteText, setNoteText] = useState('');
+    // Brush UI state
+    const COLORS = ['#fff', '#e2e2e2', '#c6c6c6', '#aaa', '#8f8f8f', '#757575', '#5b5b5b', '#434343', '#2d2d2d', '#181818', '#000'];
+    const WIDTHS = [2, 4, 6, 8, 10, 12, 14, 18, 22, 26];
+    const [showColorOptions, setShowColorOptions] = useState(false);
+    const [showWidthOptions, setShowWidthOptions] = useState(false);
+    // Eyedropper state
+    const [pickedColor, setPickedColor] = useState<ColorReading | null>(null);
+    const [loupePoint, setLoupePoint] = useState<{ x: number; y: number } | null>(null);
+    // Last reading of the current drag, committed to the swatch history on release
+    const lastSampleRef = useRef<{ reading: ColorReading; x: number; y: number } | null>(null);
+    const [swatches, setSwatches] = useState<EditorSwatch[]>([]);
+    const [selectedSwatchId, setSelectedSwatchId] = useState<string | null>(null);
+    // Value study (grayscale / posterized) render mode
+    const [valueStudy, setValueStudy] = useState<ValueStudy>(DEFAULT_VALUE_STUDY);
+    const valueEffect = useMemo(() => Skia.RuntimeEffect.Make(VALUE_STUDY_SKSL), []);
+    // Dominant colors extracted from the working image
+    const [palette, setPalette] = useState<PaletteColor[]>([]);
+    const [paletteSize, setPaletteSize] = useState(DEFAULT_PALETTE_SIZE);
+    const [extractingPalette, setExtractingPalette] = useState(false);
+    // Composition grid shown while cropping and optionally as a drawing overlay
+    const [grid, setGrid] = useState<GridConfig>(DEFAULT_GRID);
+    const updateGrid = (patch: Partial<GridConfig>) => setGrid((g) => ({...g, ...patch}));
+    // Second photo compared against the working image
+    const [compare, setCompare] = useState<CompareSettings | null>(null);
+    const compareImage = useImage(compare?.uri ?? null);
+    const compareRef = useRef(compare);
+    compareRef.current = compare;
+    // Dragging the photo's corners instead of viewing the comparison
+    const [aligning, setAligning] = useState(false);
+    const brushColors = palette.length > 0 ? palette.map((p) => p.hex) : COLORS;
+
+    // Collapse brush option panels when leaving brush tool
+    useEffect(() => {
+        if (activeTool !== 'brush') {
+            setShowColorOptions(false);
+            setShowWidthOptions(false);
+        }
+    }, [activeTool]);
+
+    // Unsaved changes: the document compared by value against the last save or load
+    const docKey = useMemo(
+        () => JSON.stringify({
+            currentUri,
+            strokes: strokes.map(serializeStroke),
+            noteText,
+            valueStudy,
+            aspect,
+            swatches,
+            palette,
+            grid,
+            compare,
+        }),
+        [currentUri, strokes, noteText, valueStudy, aspect, swatches, palette, grid, compare]
+    );
+    const docKeyRef = useRef(docKey);
+    docKeyRef.current = docKey;
+    // undefined until hydrated; null when nothing has been saved yet (new image or recovered draft)
+    const [cleanKey, setCleanKey] = useState<string | null | undefined>(undefined);
+    const dirty = cleanKey !== undefined && docKey !== cleanKey;
+
+    useEffect(() => {
+        if (hydrated && cleanKey === undefined) {
+            setCleanKey(initialState && !recovered ? docKey : null);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [hydrated, cleanKey, docKey]);
+
+    useEffect(() => {
+        onDirtyChange?.(dirty);
+    }, [dirty, onDirtyChange]);
+
+    const markSaved = () => {
+        setCleanKey(docKeyRef.current);
+        clearDraft().catch((e) => console.warn('Failed to clear draft', e));
+    };
+
+    useEffect(() => {
+        if (!saveVisible) return;
+        listCollections()
+            .then(setCollections)
+            .catch((e) => console.warn('Failed to load collections', e));
+    }, [saveVisible]);
+
+    // Submitting an empty name just closes the field
+    const addCollection = async () => {
+        const name = newCollectionName?.trim();
+        setNewCollectionName(null);
+        if (!name) return;
+        try {
+            const id = await createCollection(name);
+            setCollections(await listCollections());
+            setSaveCollectionId(id);
+        } catch (e) {
+            console.warn('Create collection failed', e);
+            Alert.alert('Collection failed', 'Could not create the collection.');
+        }
+    };
+
+    // Autosave to the draft slot while there are unsaved changes
+    const flushDraftRef = useRef<(() => void) | null>(null);
+    flushDraftRef.current = dirty
+        ? () => {
+            saveDraft(buildEditorState(), sessionId ?? null).catch((e) => console.warn('Autosave failed', e));
+        }
+        : null;
+
+    useEffect(() => {
+        if (!dirty) return;
+        const t = setTimeout(() => flushDraftRef.current?.(), AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(t);
+    }, [docKey, dirty]);
+
+    // A backgrounded app can be killed without warning, so don't wait for the debounce
+    useEffect(() => {
+        const sub = AppState.addEventListener('change', (next) => {
+            if (next !== 'active') flushDraftRef.current?.();
+        });
+        return () => sub.remove();
+    }, []);
+
+    // Apply crop and switch tool
+    const applyCropAndSwitch = async (nextTool: string) => {
+        if (!cropRef.current) {
+            setActiveTool(nextTool);
+            return;
+        }
+        // Without the working image's size annotations can't follow the crop, so it isn't applied
+        const sourceSize = resolvedResolution ?? (image ? {width: image.width(), height: image.height()} : undefined);
+        if (!sourceSize) {
+            Alert.alert('Not ready', 'The image is still loading. Try again in a moment.');
+            return;
+        }
+        try {
+            setApplyingCrop(true);
+            // Crop at the image's own resolution; exports render from this working image
+            const resultCtx = cropRef.current.crop();
+            // Untouched frame: keep the working image instead of writing an identical copy
+            if (isIdentityCrop(resultCtx, sourceSize)) {
+                setActiveTool(nextTool);
+                return;
+            }
+            const actions: any[] = [];
+            if (resultCtx.resize) {
+                actions.push({
+                    resize: {
+                        width: Math.round(resultCtx.resize.width),
+                        height: Math.round(resultCtx.resize.height)
+                    }
+                });
+            }
+            const angle = Math.round(resultCtx.context.rotationAngle);
+            const normAngle = ((angle % 360) + 360) % 360;
+            if (normAngle !== 0) {
+                actions.push({rotate: normAngle});
+            }
+            if (resultCtx.context.flipHorizontal) {
+                actions.push({flip: FlipType.Horizontal});
+            }
+            if (resultCtx.context.flipVertical) {
+                actions.push({flip: FlipType.Vertical});
+            }
+            // Crop must be last
+            const cropRect = {
+                originX: Math.round(resultCtx.crop.originX),
+                originY: Math.round(resultCtx.crop.originY),
+                width: Math.round(resultCtx.crop.width),
+                height: Math.round(resultCtx.crop.height),
+            };
+            actions.push({crop: cropRect});
+
+            const manipulated = await manipulateAsync(
+                currentUri,
+                actions,
+                {compress: 1, format: SaveFormat.PNG}
+            );
+
+            // Carry strokes, swatch markers and the compare alignment through the same transform so they stay anchored to the image
+            const cropMatrix = cropAffine({
+                image: sourceSize,
+                resize: resultCtx.resize,
+                rotation: normAngle,
+                flipHorizontal: resultCtx.context.flipHorizontal,
+                flipVertical: resultCtx.context.flipVertical,
+                crop: cropRect,
+            });
+            const nextStrokes = transformStrokes(strokes, cropMatrix, {width: 1, height: cropRect.height / cropRect.width});
+            const nextSwatches = swatches.map((sw) => ({...sw, ...applyAffine(cropMatrix, sw)}));
+            const nextCompare = compare
+                ? {...compare, corners: compare.corners.map((p) => applyAffine(cropMatrix, p))}
+                : compare;
+            const labelParts: string[] = [];
+            if (normAngle !== 0) labelParts.push('Rotate');
+            if (resultCtx.context.flipHorizontal || resultCtx.context.flipVertical) labelParts.push('Flip');
+            labelParts.push('Crop');
+            record({
+                type: 'set',
+                label: labelParts.join(' + '),
+                before: {currentUri, strokes: strokes.map(serializeStroke), swatches, compare},
+                after: {
+                    currentUri: manipulated.uri,
+                    strokes: nextStrokes.map(serializeStroke),
+                    swatches: nextSwatches,
+                    compare: nextCompare,
+                },
+                at: Date.now(),
+            });
+            setCurrentUri(manipulated.uri);
+            // Strokes cropped out of view stay recoverable through undo
+            setStrokes(nextStrokes);
+            setSwatches(nextSwatches);
+            setCompare(nextCompare);
+            setActivePath(null);
+            setActiveTool(nextTool);
+        } catch (e) {
+            console.warn('Failed to apply crop', e);
+            // Even if it fails, switch tool to avoid UX dead-ends
+            setActiveTool(nextTool);
+        } finally {
+            setApplyingCrop(false);
+        }
+    };
+
+    const onSelectTool = (tool: string) => {
+        if (activeTool === 'grid' && tool !== 'grid') {
+            // Leaving grid: auto-apply crop
+            applyCropAndSwitch(tool);
+        } else {
+            // If leaving notes, make sure to hide the keyboard
+            if (activeTool === 'note' && tool !== 'note') {
+                Keyboard.dismiss();
+                commitNoteEdit();
+            }
+            if (tool === 'note' && activeTool !== 'note') {
+                noteBaselineRef.current = noteText;
+            }
+            if (tool !== 'compare') setAligning(false);
+            setActiveTool(tool);
+        }
+    };
+
+
+    // Strokes live in image-width units; this maps them onto the canvas as the image is laid out
+    const unitsToView = image
+        ? imageUnitsToView({width: image.width(), height: image.height()}, canvasSize)
+        : null;
+    const unitScale = unitsToView ? affineScale(unitsToView) : 1;
+
+    // JS-side handlers to avoid calling React state setters from gesture worklets
+    const startStroke = (x: number, y: number) => {
+        if (!unitsToView) return;
+        const pt = applyAffine(invertAffine(unitsToView), {x, y});
+        const p = Skia.Path.Make();
+        p.moveTo(pt.x, pt.y);
+        setActivePath(p);
+    };
+    const appendPoint = (x: number, y: number) => {
+        if (!unitsToView) return;
+        const pt = applyAffine(invertAffine(unitsToView), {x, y});
+        setActivePath((prev) => {
+            if (!prev) return prev;
+            prev.lineTo(pt.x, pt.y);
+            return prev.copy();
+        });
+    };
+    const endStroke = () => {
+        setActivePath((prev) => {
+            if (prev) {
+                const stroke = {path: prev, color: brushColor, width: brushWidth / unitScale};
+                setStrokes((s) => [...s, stroke]);
+                record({type: 'addStroke', stroke: serializeStroke(stroke), at: Date.now()});
+            }
+            return null;
+        });
+    };
+
+    const pan = Gesture.Pan()
+        .onStart((e) => {
+            runOnJS(startStroke)(e.x, e.y);
+        })
+        .onChange((e) => {
+            runOnJS(appendPoint)(e.x, e.y);
+        })
+        .onEnd(() => {
+            runOnJS(endStroke)();
+        });
+
+    // Read the pixel under the finger from the working image (not the composited canvas)
+    const sampleAt = (x: number, y: number) => {
+        if (!image || !unitsToView) return;
+        const cx = Math.max(0, Math.min(canvasW, x));
+        const cy = Math.max(0, Math.min(canvasH, y));
+        setLoupePoint({x: cx, y: cy});
+        const imgW = image.width();
+        const imgH = image.height();
+        const p = viewToImagePoint({x: cx, y: cy}, {width: imgW, height: imgH}, canvasSize);
+        const px = Math.max(0, Math.min(imgW - 1, Math.floor(p.x)));
+        const py = Math.max(0, Math.min(imgH - 1, Math.floor(p.y)));
+        try {
+            const pixels = image.readPixels(px, py, {
+                width: 1,
+                height: 1,
+                colorType: ColorType.RGBA_8888,
+                alphaType: AlphaType.Unpremul,
+            });
+            if (pixels && pixels.length >= 3) {
+                const reading = readColor({r: pixels[0], g: pixels[1], b: pixels[2]});
+                // Stored in image-width units so the marker stays on the sampled content
+                const at = applyAffine(invertAffine(unitsToView), {x: cx, y: cy});
+                lastSampleRef.current = {reading, x: at.x, y: at.y};
+                setPickedColor(reading);
+            }
+        } catch (e) {
+            console.warn('Failed to sample pixel', e);
+        }
+    };
+    const endSample = () => {
+        setLoupePoint(null);
+        const sample = lastSampleRef.current;
+        lastSampleRef.current = null;
+        if (!sample) return;
+        const swatch: EditorSwatch = {
+            id: makeSwatchId(),
+            hex: sample.reading.hex,
+            x: sample.x,
+            y: sample.y,
+            pinned: false,
+            createdAt: Date.now(),
+        };
+        setSwatches((prev) => addSwatch(prev, swatch));
+        setSelectedSwatchId(swatch.id);
+    };
+
+    const onExtractPalette = async () => {
+        if (!currentUri) return;
+        try {
+            setExtractingPalette(true);
+            // Quantize a small copy: area shares survive downscaling and k-means stays fast
+            const small = await manipulateAsync(
+                currentUri,
+                [{resize: {width: PALETTE_SAMPLE_W}}],
+                {compress: 1, format: SaveFormat.PNG, base64: true}
+            );
+            const encoded = small.base64 ? Skia.Data.fromBase64(small.base64) : null;
+            const sampleImage = encoded ? Skia.Image.MakeImageFromEncoded(encoded) : null;
+            const pixels = sampleImage?.readPixels(0, 0, {
+                width: sampleImage.width(),
+                height: sampleImage.height(),
+                colorType: ColorType.RGBA_8888,
+                alphaType: AlphaType.Unpremul,
+            });
+            if (!pixels) {
+                throw new Error('Could not read image pixels');
+            }
+            setPalette(extractPalette(pixelsFromRgba(pixels), paletteSize));
+        } catch (e) {
+            console.warn('Palette extraction failed', e);
+            Alert.alert('Extract failed', 'Could not extract a palette from this image.');
+        } finally {
+            setExtractingPalette(false);
+        }
+    };
+
+    const selectSwatch = (sw: EditorSwatch) => {
+        const rgb = hexToRgb(sw.hex);
+        if (rgb) setPickedColor(readColor(rgb));
+        setSelectedSwatchId(sw.id);
+    };
+    const deleteSwatch = (id: string) => {
+        setSwatches((prev) => removeSwatch(prev, id));
+        if (selectedSwatchId === id) setSelectedSwatchId(null);
+    };
+
+    const pickerPan = Gesture.Pan()
+        .minDistance(0)
+        .onStart((e) => {
+            runOnJS(sampleAt)(e.x, e.y);
+        })
+        .onChange((e) => {
+            runOnJS(sampleAt)(e.x, e.y);
+        })
+        .onFinalize(() => {
+            runOnJS(endSample)();
+        });
+
+    // Apply one side of a history command to the live editor state
+    const applyDoc = (doc: Partial<EditorDoc>) => {
+        if (doc.currentUri !== undefined) setCurrentUri(doc.currentUri);
+        if (doc.strokes !== undefined) setStrokes(deserializeStrokes(doc.strokes));
+        if (doc.swatches !== undefined) {
+            // Only positions are restored; swatches sampled, pinned or removed since stay as they are
+            const moved = new Map(doc.swatches.map((sw) => [sw.id, sw]));
+            setSwatches((prev) => prev.map((sw) => {
+                const at = moved.get(sw.id);
+                return at ? {...sw, x: at.x, y: at.y} : sw;
+            }));
+        }
+        if (doc.noteText !== undefined) setNoteText(doc.noteText);
+        if (doc.valueStudy !== undefined) setValueStudy(doc.valueStudy);
+        if (doc.aspect !== undefined) setAspect(doc.aspect);
+        if (doc.compare !== undefined) setCompare(doc.compare);
+    };
+
+    const undo = () => {
+        const cmd = history.past[history.past.length - 1];
+        if (!cmd) return;
+        if (cmd.type === 'addStroke') {
+            setStrokes((prev) => prev.slice(0, -1));
+        } else {
+            applyDoc(cmd.before);
+        }
+        setActivePath(null);
+        setHistory(stepBack);
+    };
+    const redo = () => {
+        const cmd = history.future[history.future.length - 1];
+        if (!cmd) return;
+        if (cmd.type === 'addStroke') {
+            setStrokes((prev) => [...prev, ...deserializeStrokes([cmd.stroke])]);
+        } else {
+            applyDoc(cmd.after);
+        }
+        setActivePath(null);
+        setHistory(stepForward);
+    };
+    const clear = () => {
+        record({
+            type: 'set',
+            label: 'Clear strokes',
+            before: {strokes: strokes.map(serializeStroke)},
+            after: {strokes: []},
+            at: Date.now(),
+        });
+        setStrokes([]);
+        setActivePath(null);
+    };
+
+    const commitNoteEdit = () => {
+        if (noteText === noteBaselineRef.current) return;
+        record({
+            type: 'set',
+            label: 'Edit note',
+            before: {noteText: noteBaselineRef.current},
+            after: {noteText},
+            at: Date.now(),
+        });
+        noteBaselineRef.current = noteText;
+    };
+
+    const changeValueStudy = (next: ValueStudy) => {
+        record({
+            type: 'set',
+            label: 'Value study',
+            before: {valueStudy},
+            after: {valueStudy: next},
+            at: Date.now(),
+            coalesce: 'valueStudy',
+        });
+        setValueStudy(next);
+    };
+
+    const changeAspect = (next: CanvasAspect) => {
+        record({
+            type: 'set',
+            label: 'Aspect ratio',
+            before: {aspect},
+            after: {aspect: next},
+            at: Date.now(),
+            coalesce: 'aspect',
+        });
+        setAspect(next);
+    };
+
+    const changeCompare = (next: CompareSettings | null, label: string, coalesce?: string) => {
+        record({
+            type: 'set',
+            label,
+            before: {compare},
+            after: {compare: next},
+            at: Date.now(),
+            coalesce,
+        });
+        setCompare(next);
+    };
+
+    // The part of the working image on screen, in image-width units
+    const visibleFrame = () => {
+        if (!unitsToView) return {x: 0, y: 0, width: 1, height: 1};
+        const inverse = invertAffine(unitsToView);
+        const topLeft = applyAffine(inverse, {x: 0, y: 0});
+        const bottomRight = applyAffine(inverse, {x: canvasW, y: canvasH});
+        return {x: topLeft.x, y: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y};
+    };
+
+    const pickComparePhoto = async (source: 'library' | 'camera') => {
+        try {
+            const options: ImagePicker.ImagePickerOptions = {
+                mediaTypes: ['images'],
+                allowsEditing: false,
+                quality: 1,
+            };
+            let res: ImagePicker.ImagePickerResult;
+            if (source === 'camera') {
+                const permission = await ImagePicker.requestCameraPermissionsAsync();
+                if (!permission.granted) {
+                    Alert.alert('Camera access needed', 'Allow camera access to photograph your work for comparison.');
+                    return;
+                }
+                res = await ImagePicker.launchCameraAsync(options);
+            } else {
+                res = await ImagePicker.launchImageLibraryAsync(options);
+            }
+            const asset = res.canceled ? undefined : res.assets?.[0];
+            if (!asset?.uri) return;
+            changeCompare({
+                uri: asset.uri,
+                mode: compare?.mode ?? 'onion',
+                opacity: compare?.opacity ?? DEFAULT_COMPARE_OPACITY,
+                split: compare?.split ?? 0.5,
+                corners: fitCorners({width: asset.width, height: asset.height}, visibleFrame()),
+            }, compare ? 'Replace compare photo' : 'Add compare photo');
+            // A fresh photo almost never lines up on its own
+            setAligning(true);
+        } catch (e) {
+            console.warn('Compare photo failed', e);
+            Alert.alert('Photo failed', 'Could not load the photo to compare.');
+        }
+    };
+
+    const resetAlignment = () => {
+        if (!compare || !compareImage) return;
+        changeCompare({
+            ...compare,
+            corners: fitCorners({width: compareImage.width(), height: compareImage.height()}, visibleFrame()),
+        }, 'Reset alignment');
+    };
+
+    const removeCompare = () => {
+        changeCompare(null, 'Remove compare photo');
+        setAligning(false);
+    };
+
+    // Dragged handle (a corner index, or 'split' for the divider) and the settings when the drag began
+    const compareDragRef = useRef<{ target: number | 'split'; before: CompareSettings } | null>(null);
+    const startCompareDrag = (x: number, y: number) => {
+        const current = compareRef.current;
+        compareDragRef.current = null;
+        if (!current || !unitsToView) return;
+        if (!aligning) {
+            if (current.mode !== 'split') return;
+            compareDragRef.current = {target: 'split', before: current};
+            moveCompareDrag(x, y);
+            return;
+        }
+        let nearest = -1;
+        let nearestDist = HANDLE_HIT_R;
+        current.corners.forEach((corner, i) => {
+            const p = applyAffine(unitsToView, corner);
+            const dist = Math.hypot(p.x - x, p.y - y);
+            if (dist < nearestDist) {
+                nearest = i;
+                nearestDist = dist;
+            }
+        });
+        if (nearest >= 0) compareDragRef.current = {target: nearest, before: current};
+    };
+    const moveCompareDrag = (x: number, y: number) => {
+        const drag = compareDragRef.current;
+        if (!drag || !unitsToView) return;
+        const cx = Math.max(0, Math.min(canvasW, x));
+        const cy = Math.max(0, Math.min(canvasH, y));
+        if (drag.target === 'split') {
+            setCompare((c) => c && {...c, split: cx / canvasW});
+            return;
+        }
+        const target = drag.target;
+        const p = applyAffine(invertAffine(unitsToView), {x: cx, y: cy});
+        setCompare((c) => {
+            if (!c) return c;
+            const corners = c.corners.map((corner, i) => (i === target ? p : corner));
+            return isConvexQuad(corners) ? {...c, corners} : c;
+        });
+    };
+    const endCompareDrag = () => {
+        const drag = compareDragRef.current;
+        compareDragRef.current = null;
+        const current = compareRef.current;
+        if (!drag || !current || current === drag.before) return;
+        record({
+            type: 'set',
+            label: drag.target === 'split' ? 'Move split' : 'Align photo',
+            before: {compare: drag.before},
+            after: {compare: current},
+            at: Date.now(),
+        });
+    };
+
+    const comparePan = Gesture.Pan()
+        .minDistance(0)
+        .onStart((e) => {
+            runOnJS(startCompareDrag)(e.x, e.y);
+        })
+        .onChange((e) => {
+            runOnJS(moveCompareDrag)(e.x, e.y);
+        })
+        .onFinalize(() => {
+            runOnJS(endCompareDrag)();
+        });
+
+    const exportAndShare = async (size: ExportSize, format: ExportFormat, quality: number) => {
+        try {
+            if (!image) {
+                Alert.alert('Not ready', 'The image is still loading.');
+                return;
+            }
+            setExporting(true);
+            // Let the spinner render before the synchronous offscreen render blocks the JS thread
+            await new Promise((r) => requestAnimationFrame(() => r(null)));
+            const imageSnapshot = renderComposite(image, {
+                size,
+                strokes: strokes.map(serializeStroke),
+                valueStudy,
+                grid,
+            });
+            if (!imageSnapshot) {
+                Alert.alert('Export failed', 'Could not render the image.');
+                return;
+            }
+            if (Platform.OS === 'web' && format !== 'svg' && format !== 'pdf') {
+                downloadExport(format, {base64: encodeImage(imageSnapshot, format, quality)});
+                return;
+            }
+            let fileUri: string;
+            if (format === 'pdf') {
+                const base64 = encodeImage(imageSnapshot, 'jpeg', 95);
+                fileUri = await writeImagePdf(base64, 'image/jpeg', imageSnapshot.width(), imageSnapshot.height());
+            } else if (format === 'svg') {
+                // Annotations stay vectors, so the embedded image is rendered without them
+                const base = renderComposite(image, {size, strokes: [], valueStudy, grid: null});
+                if (!base) {
+                    Alert.alert('Export failed', 'Could not render the image.');
+                    return;
+                }
+                const svgInput = {
+                    imageBase64: encodeImage(base, 'jpeg', 95),
+                    imageMime: 'image/jpeg',
+                    width: base.width(),
+                    height: base.height(),
+                    strokes: strokes.map(serializeStroke),
+                    grid,
+                };
+                if (Platform.OS === 'web') {
+                    downloadExport('svg', {text: buildLayeredSvg(svgInput)});
+                    return;
+                }
+                fileUri = await writeSvgExport(svgInput);
+            } else {
+                fileUri = await writeRasterExport(imageSnapshot, format, quality);
+            }
+            const available = await Sharing.isAvailableAsync();
+            if (!available) {
+                Alert.alert('Sharing not available', 'Sharing is not available on this device. The image was saved to a temporary file.', [
+                    {text: 'OK'}
+                ]);
+                return;
+            }
+            await Sharing.shareAsync(fileUri, {
+                mimeType: formatInfo(format).mimeType,
+                dialogTitle: 'Share image',
+            });
+        } catch (e) {
+            console.warn('Share failed', e);
+            Alert.alert('Share failed', 'Something went wrong while preparing the image.');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const onPressShare = async () => {
+        if (activeTool === 'grid') {
+            Alert.alert(
+                'Apply crop?',
+                'To share, we need to apply your current crop first.',
+                [
+                    {text: 'Cancel', style: 'cancel'},
+                    {
+                        text: 'Apply & Share', onPress: async () => {
+                            await applyCropAndSwitch('none');
+                            setExportVisible(true);
+                        }
+                    }
+                ]
+            );
+            return;
+        }
+        setExportVisible(true);
+    };
+
+    const exportTarget: ExportSize | null = exportSize === 'custom'
+        ? (Number(customExportSize) >= MIN_CUSTOM_EXPORT && Number(customExportSize) <= MAX_CUSTOM_EXPORT
+            ? Math.round(Number(customExportSize))
+            : null)
+        : exportSize;
+    const exportDims = image && exportTarget !== null
+        ? outputSize({width: image.width(), height: image.height()}, exportTarget)
+        : null;
+
+    // Keep the loupe above the finger, flipping below near the top edge
+    const loupe = loupePoint ? (() => {
+        const x = loupePoint.x;
+        const y = loupePoint.y - LOUPE_OFFSET < LOUPE_R ? loupePoint.y + LOUPE_OFFSET : loupePoint.y - LOUPE_OFFSET;
+        const clip = Skia.Path.Make();
+        clip.addCircle(x, y, LOUPE_R);
+        return {x, y, clip, sourceX: loupePoint.x, sourceY: loupePoint.y};
+    })() : null;
+
+    // The compare photo warped onto the canvas through its four aligned corners
+    const compareCorners: Point[] | null = compare && unitsToView
+        ? compare.corners.map((p) => applyAffine(unitsToView, p))
+        : null;
+    const photoMatrix = compareCorners && compareImage ? homographyFromQuads(UNIT_QUAD, compareCorners) : null;
+    const comparing = activeTool === 'compare' && !!photoMatrix;
+    const sideBySide = comparing && !aligning && compare?.mode === 'side';
+    const alignOutline = aligning && compareCorners ? (() => {
+        const p = Skia.Path.Make();
+        p.addPoly(compareCorners, true);
+        return p;
+    })() : null;
+
+    const studyShader = valueStudy.mode !== 'color' && valueEffect ? (
+        <RuntimeShader
+            source={valueEffect}
+            uniforms={{levels: valueStudy.mode === 'posterize' ? valueStudy.levels : 0}}
+        />
+    ) : null;
+    const referenceLayer = image && (
+        <SkiaImage key={`sk-${currentUri}`} image={image} x={0} y={0} width={canvasW}
+                   height={canvasH} fit="cover">
+            {studyShader}
+        </SkiaImage>
+    );
+    const strokeLayer = unitsToView && (
+        <Group matrix={affineToMatrix3(unitsToView)}>
+            {strokes.map((s, idx) => (
+                <SkiaPath key={idx} path={s.path} color={s.color} style="stroke"
+                          strokeWidth={s.width}/>
+            ))}
+            {activePath && (
+                <SkiaPath path={activePath} color={brushColor} style="stroke"
+                          strokeWidth={brushWidth / unitScale}/>
+            )}
+        </Group>
+    );
+    // Sampled spots stay marked whatever tool is active
+    const swatchLayer = unitsToView && swatches.map((sw) => {
+        const at = applyAffine(unitsToView, sw);
+        return (
+            <Group key={sw.id}>
+                <Circle cx={at.x} cy={at.y} r={sw.id === selectedSwatchId ? 9 : 7} color={sw.hex}/>
+                <Circle cx={at.x} cy={at.y} r={sw.id === selectedSwatchId ? 9 : 7}
+                        color={sw.pinned ? '#ffd60a' : '#fff'} style="stroke" strokeWidth={2}/>
+            </Group>
+        );
+    });
+    const photoLayer = comparing && compareImage && photoMatrix && (
+        <Group matrix={photoMatrix}>
+            <SkiaImage image={compareImage} x={0} y={0} width={1} height={1} fit="fill">
+                {studyShader}
+            </SkiaImage>
+        </Group>
+    );
+    const splitX = (compare?.split ?? 0.5) * canvasW;
+
+    const resetEditor = () => {
+        // Restore original image and clear drawings
+        setCurrentUri(originalUriRef.current);
+        setStrokes([]);
+        setActivePath(null);
+        // If grid tool is mounted, reset its transform state
+        cropRef.current?.reset?.();
+    };
+
+
+    return (
+        <View style={styles.container}>
+            <View style={styles.canvasWrap}>
+                {activeTool === 'note' ? (
+                    <KeyboardAvoidingView
+                        style={{width: SCREEN_W, height: CANVAS_H, padding: 16}}
+                        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                    >
+                        <TouchableWithoutFeedback onPress={Keyboard.dismiss} accessible={false}>
+                            <View style={{flex: 1}}>
+                                <Text style={{
+                                    color: '#fff',
+                                    fontSize: 16,
+                                    fontWeight: '600',
+                                    marginBottom: 8
+                                }}>Notes</Text>
+                                <TextInput
+                                    style={{
+                                        flex: 1,
+                                        color: '#fff',
+                                        backgroundColor: 'rgba(255,255,255,0.06)',
+                                        borderRadius: 12,
+                                        padding: 12,
+                                        textAlignVertical: 'top'
+                                    }}
+                                    multiline
+                                    placeholder="Type your notes here..."
+                                    placeholderTextColor="rgba(255,255,255,0.6)"
+                                    value={noteText}
+                                    onChangeText={setNoteText}
+                                    blurOnSubmit
+                                    returnKeyType="done"
+                                />
+                            </View>
+                        </TouchableWithoutFeedback>
+                    </KeyboardAvoidingView>
+                ) : activeTool === 'grid' ? (
+                    resolvedResolution === undefined ? (
+                        <View
+                            style={{width: SCREEN_W, height: CANVAS_H, alignItems: 'center', justifyContent: 'center'}}>
+                            <ActivityIndicator size="large" color="#fff"/>
+                        </View>
+                    ) : (
+                        <View style={{width: canvasW, height: canvasH}}>
+                            <CropZoom
+                                key={`cz-${currentUri}-${aspect.w}x${aspect.h}`}
+                                ref={cropRef}
+                                cropSize={cropSize}
+                                resolution={resolvedResolution}
+                            >
+                                <Image
+                                    source={{uri: currentUri}}
+                                    style={{width: '100%', height: '100%'}}
+                                    resizeMode="cover"
+                                />
+                            </CropZoom>
+                            <CompositionGrid config={grid} width={canvasW} height={canvasH}/>
+                        </View>
+                    )
+                ) : (
+                    <GestureDetector gesture={
+                        activeTool === 'picker' ? pickerPan : activeTool === 'compare' ? comparePan : pan
+                    }>
+                        <Canvas ref={canvasRef} style={{width: canvasW, height: canvasH}}>
+                            {sideBySide ? (
+                                sidePanels(canvasSize).map((panel, i) => (
+                                    <Group
+                                        key={i}
+                                        transform={[
+                                            {translateX: panel.x},
+                                            {translateY: panel.y},
+                                            {scale: panel.scale},
+                                        ]}
+                                        clip={{x: 0, y: 0, width: canvasW, height: canvasH}}
+                                    >
+                                        {i === 0 ? <>{referenceLayer}{strokeLayer}{swatchLayer}</> : photoLayer}
+                                    </Group>
+                                ))
+                            ) : (
+                                <>
+                                    {referenceLayer}
+                                    {comparing && (compare?.mode === 'split' && !aligning ? (
+                                        <Group clip={{x: splitX, y: 0, width: canvasW - splitX, height: canvasH}}>
+                                            {photoLayer}
+                                        </Group>
+                                    ) : (
+                                        // Aligning needs both images visible, whatever the mode
+                                        <Group opacity={aligning ? DEFAULT_COMPARE_OPACITY : compare?.opacity}>
+                                            {photoLayer}
+                                        </Group>
+                                    ))}
+                                    {strokeLayer}
+                                </>
+                            )}
+                            {comparing && compare?.mode === 'split' && !aligning && (
+                                <>
+                                    <Line p1={{x: splitX, y: 0}} p2={{x: splitX, y: canvasH}} color="#fff"
+                                          strokeWidth={2}/>
+                                    <Circle cx={splitX} cy={canvasH / 2} r={12} color="#fff"/>
+                                </>
+                            )}
+                            {comparing && alignOutline && compareCorners && (
+                                <>
+                                    <SkiaPath path={alignOutline} color="#ffd60a" style="stroke" strokeWidth={1.5}/>
+                                    {compareCorners.map((p, i) => (
+                                        <Group key={i}>
+                                            <Circle cx={p.x} cy={p.y} r={10} color="rgba(0,0,0,0.35)"/>
+                                            <Circle cx={p.x} cy={p.y} r={10} color="#ffd60a" style="stroke"
+                                                    strokeWidth={2}/>
+                                        </Group>
+                                    ))}
+                                </>
+                            )}
+                            {!sideBySide && swatchLayer}
+                            {activeTool === 'picker' && image && loupe && (
+                                <>
+                                    <Group clip={loupe.clip}>
+                                        <Group transform={[
+                                            {translateX: loupe.x - loupe.sourceX * LOUPE_ZOOM},
+                                            {translateY: loupe.y - loupe.sourceY * LOUPE_ZOOM},
+                                            {scale: LOUPE_ZOOM},
+                                        ]}>
+                                            <SkiaImage image={image} x={0} y={0} width={canvasW}
+                                                       height={canvasH} fit="cover"/>
+                                        </Group>
+                                    </Group>
+                                    <Circle cx={loupe.x} cy={loupe.y} r={LOUPE_R} color={pickedColor?.hex ?? '#fff'}
+                                            style="stroke" strokeWidth={6}/>
+                                    <Circle cx={loupe.x} cy={loupe.y} r={LOUPE_R + 3} color="#fff" style="stroke"
+                                            strokeWidth={1}/>
+                                    <Circle cx={loupe.x} cy={loupe.y} r={LOUPE_ZOOM / 2 + 1} color="#fff"
+                                            style="stroke" strokeWidth={1}/>
+                                </>
+                            )}
+                        </Canvas>
+                    </GestureDetector>
+                )}
+                {grid.overlay && activeTool !== 'grid' && activeTool !== 'note' && !sideBySide && (
+                    <View pointerEvents="none" style={[styles.gridOverlay, {width: canvasW, height: canvasH}]}>
+                        <CompositionGrid config={grid} width={canvasW} height={canvasH}/>
+                    </View>
+                )}
+            </View>
+
+            <View>
+
+                {
+                    activeTool === 'brush' && (
+
+                        <View style={styles.brushRow}>
+                            {/* Color selector: collapsed to active color, expand on tap */}
+                            <View style={styles.rowSection}>
+                                <View style={{flexDirection: 'row', alignItems: 'center'}}>
+                                    {!showWidthOptions && (
+
+                                        <Pressable onPress={() => setShowColorOptions(v => !v)}>
+                                            <View
+                                                style={[styles.colorSwatch, {backgroundColor: brushColor}, styles.colorSwatchActive]}/>
+                                        </Pressable>
+                                    )}
+                                    {showColorOptions && (
+                                        <ScrollView
+                                            horizontal
+                                            showsHorizontalScrollIndicator={false}
+                                            style={{flex: 1}}
+                                            contentContainerStyle={{alignItems: 'center'}}
+                                        >
+                                            {brushColors.map((c) => (
+                                                <Pressable
+                                                    key={c}
+                                                    onPress={() => {
+                                                        setBrushColor(c);
+                                                        setShowColorOptions(false);
+                                                    }}
+                                                    style={[styles.colorSwatch, {backgroundColor: c}, brushColor === c && styles.colorSwatchActive]}
+                                                />
+                                            ))}
+                                        </ScrollView>
+                                    )}
+                                    {!showColorOptions && (
+
+                                        <Pressable onPress={() => setShowWidthOptions(v => !v)}>
+                                            <View style={styles.widthPreviewWrap}>
+                                                <View style={[styles.widthPreviewBar, {height: brushWidth}]}/>
+                                                <Text style={styles.widthPreviewText}>{brushWidth}</Text>
+                                            </View>
+                                        </Pressable>
+                                    )}
+                                    {showWidthOptions && (
+                                        <ScrollView
+                                            horizontal
+                                            showsHorizontalScrollIndicator={false}
+                                            style={{flex: 1}}
+                                            contentContainerStyle={{alignItems: 'center', justifyContent: 'flex-end'}}
+                                        >
+                                            {WIDTHS.map((w) => (
+                                                <Pressable
+                                                    key={w}
+                                                    onPress={() => {
+                                                        setBrushWidth(w);
+                                                        setShowWidthOptions(false);
+                                                    }}
+                                                    style={[styles.widthBtn, brushWidth === w && styles.widthBtnActive]}
+                                                >
+                                                    <View style={{alignItems: 'center'}}>
+                                                        <View
+                                                            style={[
+                                                                { height: w, width: 28, backgroundColor: '#fff', borderRadius: 12 },
+                                                                brushWidth === w ? { backgroundColor: '#ffd60a' } : null
+                                                            ]}
+                                                        />
+                                                        <Text style={styles.widthLabel}>{w}</Text>
+                                                    </View>
+                                                </Pressable>
+                                            ))}
+                                        </ScrollView>
+                                    )}
+
+                                </View>
+
+                            </View>
+                            {showColorOptions || showWidthOptions ? null : (
+
+                                <>
+                                    <Pressable style={styles.toolBrushBtn} onPress={undo} disabled={history.past.length === 0}>
+                                        <MaterialIcons name="undo" size={24} color="#fff"/>
+                                    </Pressable>
+                                    <Pressable style={styles.toolBrushBtn} onPress={clear} disabled={strokes.length === 0}>
+                                        <MaterialIcons name="layers-clear" size={24} color="#fff"/>
+                                    </Pressable>
+                                </>
+                            )
+                            }
+                        </View>
+                    )
+                }
+
+
+                {
+                    activeTool === 'picker' && (
+                        <View style={styles.brushRow}>
+                            {pickedColor ? (
+                                <>
+                                    <View style={[styles.pickerSwatch, {backgroundColor: pickedColor.hex}]}/>
+                                    <View style={styles.rowSection}>
+                                        <Text style={styles.pickerHex}>{pickedColor.hex.toUpperCase()}</Text>
+                                        <Text style={styles.pickerLine}>RGB {formatRgb(pickedColor.rgb)}</Text>
+                                        <Text style={styles.pickerLine}>HSL {formatHsl(pickedColor.hsl)}</Text>
+                                    </View>
+                                    <View style={styles.pickerValue}>
+                                        <Text style={styles.pickerValueNum}>{pickedColor.value}</Text>
+                                        <Text style={styles.pickerLine}>
+                                            {valueStudy.mode === 'posterize'
+                                                ? `Band ${posterizeValue(pickedColor.value, valueStudy.levels)}`
+                                                : 'Value'}
+                                        </Text>
+                                    </View>
+                                </>
+                            ) : (
+                                <Text style={[styles.pickerLine, {flex: 1, textAlign: 'center'}]}>
+                                    Tap or drag on the image to sample a color
+                                </Text>
+                            )}
+                        </View>
+                    )
+                }
+
+                {
+                    activeTool === 'picker' && swatches.length > 0 && (
+                        <View style={styles.swatchStrip}>
+                            <ScrollView
+                                horizontal
+                                showsHorizontalScrollIndicator={false}
+                                style={{flex: 1}}
+                                contentContainerStyle={{alignItems: 'center'}}
+                            >
+                                {sortSwatches(swatches).map((sw) => (
+                                    <Pressable key={sw.id} onPress={() => selectSwatch(sw)}>
+                                        <View style={[
+                                            styles.colorSwatch,
+                                            {backgroundColor: sw.hex},
+                                            sw.id === selectedSwatchId && styles.colorSwatchActive,
+                                            sw.pinned && {borderColor: '#ffd60a'}
+                                        ]}/>
+                                    </Pressable>
+                                ))}
+                            </ScrollView>
+                            {selectedSwatchId && swatches.some((sw) => sw.id === selectedSwatchId) && (
+                                <>
+                                    <Pressable style={styles.toolBrushBtn}
+                                               onPress={() => setSwatches((prev) => togglePinned(prev, selectedSwatchId))}>
+                                        <MaterialIcons
+                                            name="push-pin"
+                                            size={22}
+                                            color={swatches.find((sw) => sw.id === selectedSwatchId)?.pinned ? '#ffd60a' : '#fff'}
+                                        />
+                                    </Pressable>
+                                    <Pressable style={styles.toolBrushBtn} onPress={() => deleteSwatch(selectedSwatchId)}>
+                                        <MaterialIcons name="delete-outline" size={22} color="#fff"/>
+                                    </Pressable>
+                                </>
+                            )}
+                        </View>
+                    )
+                }
+
+                {
+                    activeTool === 'grid' && (
+                        <View>
+                            <View style={styles.aspectRow}>
+                                <ScrollView
+                                    horizontal
+                                    showsHorizontalScrollIndicator={false}
+                                    style={{flex: 1}}
+                                    contentContainerStyle={{gap: 8, alignItems: 'center'}}
+                                >
+                                    {ASPECT_PRESETS.map((preset) => (
+                                        <Pressable
+                                            key={preset.id}
+                                            style={[styles.widthBtn, aspect.id === preset.id && styles.widthBtnActive]}
+                                            onPress={() => changeAspect(applyPreset(preset, aspect))}
+                                        >
+                                            <Text style={styles.toolText}>{preset.label}</Text>
+                                        </Pressable>
+                                    ))}
+                                </ScrollView>
+                                <Pressable style={styles.toolBrushBtn} onPress={() => changeAspect(rotateAspect(aspect))}
+                                           disabled={aspect.w === aspect.h}>
+                                    <MaterialIcons name={isLandscape(aspect) ? 'crop-landscape' : 'crop-portrait'}
+                                                   size={24} color="#fff"/>
+                                </Pressable>
+                                <Pressable style={styles.toolBrushBtn} onPress={() => cropRef.current?.rotate(true, true)}>
+                                    <MaterialIcons name="rotate-right" size={24} color="#fff"/>
+                                </Pressable>
+                                <Pressable style={styles.toolBrushBtn} onPress={() => cropRef.current?.flipHorizontal(true)}>
+                                    <MaterialIcons name="flip" size={24} color="#fff"/>
+                                </Pressable>
+                            </View>
+                            {aspect.id === 'custom' && (
+                                <View style={[styles.aspectRow, {gap: 8}]}>
+                                    <Stepper label=" W" value={aspect.w} min={1} max={100}
+                                             onChange={(w) => changeAspect({...aspect, w})}/>
+                                    <Stepper label=" H" value={aspect.h} min={1} max={100}
+                                             onChange={(h) => changeAspect({...aspect, h})}/>
+                                </View>
+                            )}
+                            <ScrollView
+                                horizontal
+                                showsHorizontalScrollIndicator={false}
+                                contentContainerStyle={styles.gridKindRow}
+                            >
+                                {GRID_KINDS.map(({kind, label}) => (
+                                    <Pressable
+                                        key={kind}
+                                        style={[styles.widthBtn, grid.kind === kind && styles.widthBtnActive]}
+                                        onPress={() => updateGrid({kind})}
+                                    >
+                                        <Text style={styles.toolText}>{label}</Text>
+                                    </Pressable>
+                                ))}
+                            </ScrollView>
+                            <View style={styles.brushRow}>
+                                <View style={[styles.rowSection, {flexDirection: 'row', flexWrap: 'wrap', gap: 8}]}>
+                                    {grid.kind === 'custom' && (
+                                        <>
+                                            <Stepper label=" cols" value={grid.cols} min={1} max={24}
+                                                     onChange={(cols) => updateGrid({cols})}/>
+                                            <Stepper label=" rows" value={grid.rows} min={1} max={24}
+                                                     onChange={(rows) => updateGrid({rows})}/>
+                                        </>
+                                    )}
+                                    {grid.kind === 'spiral' && (
+                                        <Pressable style={styles.widthBtn}
+                                                   onPress={() => updateGrid({spiralRotation: (grid.spiralRotation + 1) % 4})}>
+                                            <MaterialIcons name="rotate-right" size={20} color="#fff"/>
+                                        </Pressable>
+                                    )}
+                                    {grid.kind === 'square' && (
+                                        <>
+                                            <Stepper label={` ${grid.unit} cell`} value={grid.cellSize} min={1} max={50}
+                                                     onChange={(cellSize) => updateGrid({cellSize})}/>
+                                            <Stepper label={` ${grid.unit} wide`} value={grid.supportWidth} min={5}
+                                                     max={300} onChange={(supportWidth) => updateGrid({supportWidth})}/>
+                                            <Pressable style={styles.widthBtn}
+                                                       onPress={() => updateGrid({unit: grid.unit === 'cm' ? 'in' : 'cm'})}>
+                                                <Text style={styles.toolText}>{grid.unit}</Text>
+                                            </Pressable>
+                                        </>
+                                    )}
+                                    {GRID_COLORS.map((c) => (
+                                        <Pressable
+                                            key={c}
+                                            onPress={() => updateGrid({color: c})}
+                                            style={[styles.colorSwatch, {backgroundColor: c}, grid.color === c && styles.colorSwatchActive]}
+                                        />
+                                    ))}
+                                </View>
+                                <View style={{alignItems: 'center'}}>
+                                    <Text style={styles.widthPreviewText}>{Math.round(grid.opacity * 100)}%</Text>
+                                    <AdjustSlider
+                                        value={Math.round(grid.opacity * 100)}
+                                        min={10}
+                                        max={100}
+                                        onChange={(v) => updateGrid({opacity: v / 100})}
+                                    />
+                                </View>
+                                <Pressable style={styles.toolBrushBtn} onPress={() => updateGrid({overlay: !grid.overlay})}>
+                                    <MaterialIcons name="grid-4x4" size={24} color={grid.overlay ? '#ffd60a' : '#fff'}/>
+                                </Pressable>
+                            </View>
+                        </View>
+                    )
+                }
+
+                {
+                    activeTool === 'palette' && (
+                        <View>
+                            <View style={styles.brushRow}>
+                                <View style={[styles.rowSection, {flexDirection: 'row', gap: 8}]}>
+                                    {PALETTE_SIZES.map((n) => (
+                                        <Pressable
+                                            key={n}
+                                            style={[styles.widthBtn, paletteSize === n && styles.widthBtnActive]}
+                                            onPress={() => setPaletteSize(n)}
+                                        >
+                                            <Text style={styles.toolText}>{n}</Text>
+                                        </Pressable>
+                                    ))}
+                                </View>
+                                <Pressable style={styles.toolBtn} onPress={onExtractPalette}
+                                           disabled={extractingPalette || !currentUri}>
+                                    {extractingPalette ? (
+                                        <ActivityIndicator color="#fff"/>
+                                    ) : (
+                                        <Text style={styles.toolText}>Extract palette</Text>
+                                    )}
+                                </Pressable>
+                            </View>
+                            {palette.length > 0 && (
+                                <ScrollView
+                                    horizontal
+                                    showsHorizontalScrollIndicator={false}
+                                    contentContainerStyle={styles.paletteRow}
+                                >
+                                    {palette.map((p) => (
+                                        <Pressable key={p.hex} onPress={() => setBrushColor(p.hex)}
+                                                   style={{alignItems: 'center'}}>
+                                            <View style={[
+                                                styles.colorSwatch,
+                                                {backgroundColor: p.hex, marginRight: 0},
+                                                brushColor === p.hex && styles.colorSwatchActive
+                                            ]}/>
+                                            <Text style={styles.widthLabel}>{Math.round(p.share * 100)}%</Text>
+                                            <Text style={styles.widthLabel}>{p.hex.toUpperCase()}</Text>
+                                        </Pressable>
+                                    ))}
+                                </ScrollView>
+                            )}
+                        </View>
+                    )
+                }
+
+                {
+                    activeTool === 'value' && (
+                        <View style={styles.brushRow}>
+                            <View style={[styles.rowSection, {flexDirection: 'row', flexWrap: 'wrap', gap: 8}]}>
+                                <Pressable
+                                    style={[styles.widthBtn, valueStudy.mode === 'color' && styles.widthBtnActive]}
+                                    onPress={() => changeValueStudy({...valueStudy, mode: 'color'})}
+                                >
+                                    <Text style={styles.toolText}>Color</Text>
+                                </Pressable>
+                                <Pressable
+                                    style={[styles.widthBtn, valueStudy.mode === 'gray' && styles.widthBtnActive]}
+                                    onPress={() => changeValueStudy({...valueStudy, mode: 'gray'})}
+                                >
+                                    <Text style={styles.toolText}>Gray</Text>
+                                </Pressable>
+                                {VALUE_PRESETS.map((n) => (
+                                    <Pressable
+                                        key={n}
+                                        style={[
+                                            styles.widthBtn,
+                                            valueStudy.mode === 'posterize' && valueStudy.levels === n && styles.widthBtnActive
+                                        ]}
+                                        onPress={() => changeValueStudy({mode: 'posterize', levels: n})}
+                                    >
+                                        <Text style={styles.toolText}>{n}</Text>
+                                    </Pressable>
+                                ))}
+                            </View>
+                            {valueStudy.mode === 'posterize' && (
+                                <View style={{alignItems: 'center'}}>
+                                    <Text style={styles.widthPreviewText}>{valueStudy.levels} values</Text>
+                                    <AdjustSlider
+                                        value={valueStudy.levels}
+                                        min={MIN_VALUE_LEVELS}
+                                        max={MAX_VALUE_LEVELS}
+                                        onChange={(n) => changeValueStudy({mode: 'posterize', levels: clampLevels(n)})}
+                                    />
+                                </View>
+                            )}
+                        </View>
+                    )
+                }
+
+                {
+                    activeTool === 'compare' && (compare ? (
+                        <View>
+                            <View style={styles.brushRow}>
+                                <View style={[styles.rowSection, {flexDirection: 'row', flexWrap: 'wrap', gap: 8}]}>
+                                    {COMPARE_MODES.map(({mode, label}) => (
+                                        <Pressable
+                                            key={mode}
+                                            style={[styles.widthBtn, !aligning && compare.mode === mode && styles.widthBtnActive]}
+                                            onPress={() => {
+                                                setAligning(false);
+                                                if (compare.mode !== mode) changeCompare({...compare, mode}, 'Compare mode');
+                                            }}
+                                        >
+                                            <Text style={styles.toolText}>{label}</Text>
+                                        </Pressable>
+                                    ))}
+                                    <Pressable
+                                        style={[styles.widthBtn, aligning && styles.widthBtnActive]}
+                                        onPress={() => setAligning((a) => !a)}
+                                    >
+                                        <Text style={styles.toolText}>Align</Text>
+                                    </Pressable>
+                                </View>
+                                {compare.mode === 'onion' && !aligning && (
+                                    <View style={{alignItems: 'center'}}>
+                                        <Text style={styles.widthPreviewText}>{Math.round(compare.opacity * 100)}% opacity</Text>
+                                        <AdjustSlider
+                                            value={Math.round(compare.opacity * 100)}
+                                            min={0}
+                                            max={100}
+                                            onChange={(n) => changeCompare({...compare, opacity: n / 100}, 'Compare opacity', 'compareOpacity')}
+                                        />
+                                    </View>
+                                )}
+                            </View>
+                            <View style={styles.brushRow}>
+                                <Text style={[styles.widthPreviewText, {flex: 1, textAlign: 'left'}]}>
+                                    {aligning
+                                        ? 'Drag the corners until the photo lines up with the image.'
+                                        : compare.mode === 'split' ? 'Drag across the image to move the split.' : ''}
+                                </Text>
+                                {aligning && (
+                                    <Pressable style={styles.toolBrushBtn} onPress={resetAlignment}>
+                                        <MaterialIcons name="restart-alt" size={24} color="#fff"/>
+                                    </Pressable>
+                                )}
+                                <Pressable style={styles.toolBrushBtn} onPress={() => pickComparePhoto('library')}>
+                                    <MaterialIcons name="photo-library" size={24} color="#fff"/>
+                                </Pressable>
+                                {Platform.OS !== 'web' && (
+                                    <Pressable style={styles.toolBrushBtn} onPress={() => pickComparePhoto('camera')}>
+                                        <MaterialIcons name="photo-camera" size={24} color="#fff"/>
+                                    </Pressable>
+                                )}
+                                <Pressable style={styles.toolBrushBtn} onPress={removeCompare}>
+                                    <MaterialIcons name="delete-outline" size={24} color="#fff"/>
+                                </Pressable>
+                            </View>
+                        </View>
+                    ) : (
+                        <View style={styles.brushRow}>
+                            <Text style={[styles.widthPreviewText, {flex: 1, textAlign: 'left'}]}>
+                                Compare the image with a photo of your work.
+                            </Text>
+                            <Pressable style={styles.toolBtn} onPress={() => pickComparePhoto('library')}>
+                                <Text style={styles.toolText}>Choose photo</Text>
+                            </Pressable>
+                            {Platform.OS !== 'web' && (
+                                <Pressable style={styles.toolBtn} onPress={() => pickComparePhoto('camera')}>
+                                    <Text style={styles.toolText}>Take photo</Text>
+                                </Pressable>
+                            )}
+                        </View>
+                    ))
+                }
+
+                <View style={styles.toolbar}>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={() => onSelectTool(activeTool === 'grid' ? 'none' : 'grid')}>
+                        <MaterialIcons name="grid-on" size={24} color={activeTool === 'grid' ? '#ffd60a' : '#fff'}/>
+                    </Pressable>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={() => onSelectTool(activeTool === 'brush' ? 'none' : 'brush')}>
+                        <MaterialIcons name="brush" size={24} color={activeTool === 'brush' ? '#ffd60a' : '#fff'}/>
+                    </Pressable>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={() => onSelectTool(activeTool === 'picker' ? 'none' : 'picker')}>
+                        <MaterialIcons name="colorize" size={24} color={activeTool === 'picker' ? '#ffd60a' : '#fff'}/>
+                    </Pressable>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={() => onSelectTool(activeTool === 'palette' ? 'none' : 'palette')}>
+                        <MaterialIcons name="palette" size={24} color={activeTool === 'palette' ? '#ffd60a' : '#fff'}/>
+                    </Pressable>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={() => onSelectTool(activeTool === 'value' ? 'none' : 'value')}>
+                        <MaterialIcons name="tonality" size={24}
+                                       color={activeTool === 'value' || valueStudy.mode !== 'color' ? '#ffd60a' : '#fff'}/>
+                    </Pressable>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={() => onSelectTool(activeTool === 'compare' ? 'none' : 'compare')}>
+                        <MaterialIcons name="compare" size={24}
+                                       color={activeTool === 'compare' ? '#ffd60a' : '#fff'}/>
+                    </Pressable>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={() => onSelectTool(activeTool === 'note' ? 'none' : 'note')}>
+                        <MaterialIcons name="note-add" size={24}
+                                       color={activeTool === 'note' ? '#ffd60a' : '#fff'}/>
+                    </Pressable>
+                    <Pressable style={styles.toolbarBtn}
+                               onPress={onPressShare}
+                               disabled={exporting || applyingCrop || activeTool === 'note'}>
+                        {exporting ? (
+                            <ActivityIndicator color="#fff"/>
+                        ) : (
+                            <MaterialIcons name="ios-share" size={24} color="#fff"/>
+                        )}
+                    </Pressable>
+                </View>
+            </View>
+            <View style={styles.historyBar}>
+                <Pressable style={styles.toolBrushBtn} onPress={undo}
+                           disabled={applyingCrop || history.past.length === 0}>
+                    <MaterialIcons name="undo" size={24}
+                                   color={history.past.length === 0 ? 'rgba(255,255,255,0.3)' : '#fff'}/>
+                </Pressable>
+                <Text style={styles.historyLabel} numberOfLines={1}>
+                    {history.past.length > 0 ? commandLabel(history.past[history.past.length - 1]) : ''}
+                </Text>
+                <Pressable style={styles.toolBrushBtn} onPress={redo}
+                           disabled={applyingCrop || history.future.length === 0}>
+                    <MaterialIcons name="redo" size={24}
+                                   color={history.future.length === 0 ? 'rgba(255,255,255,0.3)' : '#fff'}/>
+                </Pressable>
+            </View>
+
+            {/* Export Modal */}
+            <Modal visible={exportVisible} transparent animationType="fade" onRequestClose={() => setExportVisible(false)}>
+                <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+                    <View style={styles.modalBackdrop}>
+                        <View style={styles.modalCard}>
+                            <Text style={styles.modalTitle}>Export image</Text>
+                            <View style={{flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12}}>
+                                {AVAILABLE_EXPORT_FORMATS.map((f) => (
+                                    <Pressable
+                                        key={f.format}
+                                        style={[styles.widthBtn, exportFormat === f.format && styles.widthBtnActive]}
+                                        onPress={() => setExportFormat(f.format)}
+                                    >
+                                        <Text style={styles.toolText}>{f.label}</Text>
+                                    </Pressable>
+                                ))}
+                            </View>
+                            {hasQuality(exportFormat) && (
+                                <View style={{flexDirection: 'row', alignItems: 'center', gap: 12, marginBottom: 12}}>
+                                    <Text style={styles.toolText}>Quality {exportQuality}</Text>
+                                    <AdjustSlider value={exportQuality} min={10} max={100} onChange={setExportQuality}/>
+                                </View>
+                            )}
+                            <View style={{flexDirection: 'row', flexWrap: 'wrap', gap: 8}}>
+                                {EXPORT_SIZE_PRESETS.map((p) => (
+                                    <Pressable
+                                        key={String(p.value)}
+                                        style={[styles.widthBtn, exportSize === p.value && styles.widthBtnActive]}
+                                        onPress={() => setExportSize(p.value)}
+                                    >
+                                        <Text style={styles.toolText}>{p.label}</Text>
+                                    </Pressable>
+                                ))}
+                                <Pressable
+                                    style={[styles.widthBtn, exportSize === 'custom' && styles.widthBtnActive]}
+                                    onPress={() => setExportSize('custom')}
+                                >
+                                    <Text style={styles.toolText}>Custom</Text>
+                                </Pressable>
+                            </View>
+                            {exportSize === 'custom' && (
+                                <TextInput
+                                    value={customExportSize}
+                                    onChangeText={setCustomExportSize}
+                                    keyboardType="number-pad"
+                                    placeholder="Long edge in pixels"
+                                    placeholderTextColor="rgba(255,255,255,0.5)"
+                                    style={[styles.modalInput, {marginTop: 12}]}
+                                />
+                            )}
+                            <Text style={[styles.widthPreviewText, {textAlign: 'left', marginTop: 12}]}>
+                                {exportDims
+                                    ? `${exportDims.width} × ${exportDims.height} px`
+                                    : `Enter a size between ${MIN_CUSTOM_EXPORT} and ${MAX_CUSTOM_EXPORT} px`}
+                            </Text>
+                            <View style={styles.modalActions}>
+                                <Pressable onPress={() => setExportVisible(false)}
+                                           style={{paddingHorizontal: 12, paddingVertical: 8}}>
+                                    <Text style={{color: '#fff'}}>Cancel</Text>
+                                </Pressable>
+                                <Pressable
+                                    disabled={exporting || exportTarget === null}
+                                    onPress={async () => {
+                                        if (exportTarget === null) return;
+                                        await exportAndShare(exportTarget, exportFormat, exportQuality);
+                                        setExportVisible(false);
+                                    }}
+                                    style={[styles.modalPrimary, (exporting || exportTarget === null) && styles.modalPrimaryDisabled]}
+                                >
+                                    {exporting ? (
+                                        <ActivityIndicator color="#111"/>
+                                    ) : (
+                                        <Text style={{color: '#111', fontWeight: '700'}}>Export</Text>
+                                    )}
+                                </Pressable>
+                            </View>
+                        </View>
+                    </View>
+                </TouchableWithoutFeedback>
+            </Modal>
+
+            {/* Save Session Modal */}
+            <Modal visible={saveVisible} transparent animationType="fade" onRequestClose={() => setSaveVisible(false)}>
+                <TouchableWithoutFeedback onPress={Keyboard.dismiss}>
+                    <View style={{
+                        flex: 1,
+                        backgroundColor: 'rgba(0,0,0,0.6)',
+                        justifyContent: 'center',
+                        alignItems: 'center',
+                        padding: 24
+                    }}>
+                        <View style={{width: '100%', backgroundColor: '#111', borderRadius: 12, padding: 16}}>
+                            <Text style={{color: '#fff', fontSize: 18, fontWeight: '700', marginBottom: 12}}>Save
+                                session</Text>
+                            <TextInput
+                                value={saveName}
+                                onChangeText={setSaveName}
+                                placeholder="Name your session"
+                                placeholderTextColor="rgba(255,255,255,0.5)"
+                                style={styles.saveInput}
+                            />
+                            <Text style={styles.saveLabel}>Collection</Text>
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false}
+                                        keyboardShouldPersistTaps="handled"
+                                        contentContainerStyle={{gap: 8}}>
+                                {[{id: null, name: 'None'}, ...collections].map((c) => (
+                                    <Pressable key={c.id ?? 'none'} onPress={() => setSaveCollectionId(c.id)}
+                                               style={[styles.saveChip, saveCollectionId === c.id && styles.saveChipActive]}>
+                                        <Text style={{color: saveCollectionId === c.id ? '#111' : '#fff'}}>{c.name}</Text>
+                                    </Pressable>
+                                ))}
+                                {newCollectionName === null && (
+                                    <Pressable onPress={() => setNewCollectionName('')} style={styles.saveChip}>
+                                        <Text style={{color: '#fff'}}>+ New</Text>
+                                    </Pressable>
+                                )}
+                            </ScrollView>
+                            {newCollectionName !== null && (
+                                <TextInput
+                                    value={newCollectionName}
+                                    onChangeText={setNewCollectionName}
+                                    autoFocus
+                                    placeholder="Collection name"
+                                    placeholderTextColor="rgba(255,255,255,0.5)"
+                                    returnKeyType="done"
+                                    onSubmitEditing={addCollection}
+                                    style={[styles.saveInput, {marginTop: 8}]}
+                                />
+                            )}
+                            <Text style={styles.saveLabel}>Tags</Text>
+                            <TextInput
+                                value={saveTags}
+                                onChangeText={setSaveTags}
+                                placeholder="e.g. landscape, warm light"
+                                placeholderTextColor="rgba(255,255,255,0.5)"
+                                autoCapitalize="none"
+                                style={styles.saveInput}
+                            />
+                            <View style={{flexDirection: 'row', justifyContent: 'flex-end', gap: 12, marginTop: 16}}>
+                                <Pressable onPress={() => setSaveVisible(false)}
+                                           style={{paddingHorizontal: 12, paddingVertical: 8}}>
+                                    <Text style={{color: '#fff'}}>Cancel</Text>
+                                </Pressable>
+                                <Pressable disabled={saving || !saveName.trim()} onPress={async () => {
+                                    try {
+                                        const name = saveName.trim();
+                                        if (!name) return;
+                                        setSaving(true);
+                                        // If currently in grid, apply crop to bake state
+                                        if (activeTool === 'grid') {
+                                            await applyCropAndSwitch('none');
+                                            // wait next frame
+                                            await new Promise((r) => requestAnimationFrame(() => r(null)));
+                                        }
+                                        // Ensure canvas has latest frame
+                                        await new Promise((r) => requestAnimationFrame(() => r(null)));
+                                        let previewUri: string | null = null;
+                                        if (canvasRef.current) {
+                                            const snapshot = canvasRef.current.makeImageSnapshot();
+                                            const base64 = snapshot?.encodeToBase64 ? snapshot.encodeToBase64() : undefined;
+                                            if (base64) {
+                                                previewUri = await writePreview(base64);
+                                            }
+                                        }
+                                        const id = await saveSession(name, buildEditorState(), previewUri, {
+                                            collectionId: saveCollectionId,
+                                            tags: parseTags(saveTags),
+                                        });
+                                        markSaved();
+                                        onSessionCreated?.(id);
+                                        setSaveVisible(false);
+                                        setSaveName('');
+                                        setSaveTags('');
+                                        Alert.alert('Saved', 'Your session has been saved.');
+                                    } catch (e) {
+                                        console.warn('Save session failed', e);
+                                        Alert.alert('Save failed', 'Could not save your session.');
+                                    } finally {
+                                        setSaving(false);
+                                    }
+                                }} style={{
+                                    paddingHorizontal: 12,
+                                    paddingVertical: 8,
+                                    backgroundColor: saving || !saveName.trim() ? 'rgba(255,255,255,0.2)' : '#fff',
+                                    borderRadius: 8
+                                }}>
+                                    <Text style={{
+                                        color: saving || !saveName.trim() ? 'rgba(255,255,255,0.7)' : '#111',
+                                        fontWeight: '700'
+                                    }}>{saving ? 'Saving…' : 'Save'}</Text>
+                                </Pressable>
+                            </View>
+                        </View>
+                    </View>
+                </TouchableWithoutFeedback>
+            </Modal>
+
+        </View>
+    );
+});
+
+// Web has no app file system, so previews are stored inline like the images themselves
+async function writePreview(base64: string): Promise<string> {
+    if (Platform.OS === 'web') return `data:image/png;base64,${base64}`;
+    const dir = await ensurePreviewDir();
+    const out = `${dir}preview-${Date.now()}.png`;
+    await FileSystem.writeAsStringAsync(out, base64, {encoding: FileSystem.EncodingType.Base64});
+    return out;
+}
+
+function getImageSize(uri: string): Promise<Size> {
+    return new Promise((resolve, reject) => {
+        Image.getSize(uri, (width, height) => resolve({width, height}), reject);
+    });
+}
+
+// 2. The main screen component now only handles loading.
+export default function EditorScreen() {
+    const editorRef = useRef<{
+        openSaveDialog: () => void;
+        saveWithoutPrompt: (sessionId: number) => Promise<void>
+    }>(null);
+    // `draft` opens the autosave slot instead of a saved session
+    const params = useLocalSearchParams<{ imageUri?: string; sessionId?: string; draft?: string }>();
+    const [initialState, setInitialState] = useState<EditorState | undefined>(undefined);
+    const [loadingSession, setLoadingSession] = useState(false);
+    // Set when neither of the session's images survives on the device
+    const [imagesMissing, setImagesMissing] = useState(false);
+    const [reloadKey, setReloadKey] = useState(0);
+    const [dirty, setDirty] = useState(false);
+    // Set once the save dialog creates a row, so later saves and autosaves update that session.
+    // Kept out of the route params, which would reload the editor.
+    const [createdSessionId, setCreatedSessionId] = useState<number | undefined>(undefined);
+    const paramSessionId = params?.sessionId ? Number(params.sessionId) : NaN;
+    const sessionId = Number.isNaN(paramSessionId) ? createdSessionId : paramSessionId;
+    const router = useRouter();
+
+    // Older sessions stored strokes and swatches in canvas pixels; rescale them onto the image
+    const migrateUnits = async (state: EditorState) => {
+        if (!hasLegacyUnits(state)) return state;
+        return migrateLegacyStrokes(state, await getImageSize(state.currentUri || state.originalUri));
+    };
+
+    useEffect(() => {
+        (async () => {
+            if (params?.draft) {
+                try {
+                    setLoadingSession(true);
+                    const draft = await getDraft();
+                    if (draft) {
+                        setInitialState(await migrateUnits(JSON.parse(draft.state_json)));
+                    } else {
+                        Alert.alert('Nothing to recover', 'The unsaved work is no longer available.');
+                    }
+                } catch (e) {
+                    console.warn('Failed to load draft', e);
+                    Alert.alert('Recovery failed', 'Could not restore the unsaved work.');
+                } finally {
+                    setLoadingSession(false);
+                }
+                return;
+            }
+            if (params?.sessionId) {
+                try {
+                    setLoadingSession(true);
+                    const id = Number(params.sessionId);
+                    const check = await repairSessionAssets(id);
+                    setImagesMissing(check === 'broken');
+                    if (check === 'broken') return;
+                    if (check === 'repaired') {
+                        Alert.alert('Session repaired', 'Some of this session\'s images were missing, so it was restored from the remaining one.');
+                    }
+                    const row = await getSession(id);
+                    if (row?.state_json) {
+                        setInitialState(await migrateUnits(JSON.parse(row.state_json)));
+                    }
+                } catch (e) {
+                    console.warn('Failed to load session', e);
+                    Alert.alert('Load failed', 'Could not open the saved session.');
+                } finally {
+                    setLoadingSession(false);
+                }
+            }
+        })();
+    }, [params?.sessionId, params?.draft, reloadKey]);
+
+    const onRelinkImage = async () => {
+        try {
+            const res = await ImagePicker.launchImageLibraryAsync({
+                mediaTypes: ['images'],
+                allowsEditing: false,
+                quality: 1,
+            });
+            if (res.canceled || !res.assets?.[0]?.uri) return;
+            await relinkSessionImage(Number(params.sessionId), res.assets[0].uri);
+            setReloadKey((k) => k + 1);
+        } catch (e) {
+            console.warn('Relink failed', e);
+            Alert.alert('Relink failed', 'Could not attach the new image to this session.');
+        }
+    };
+
+    return (
+        <>
+            <Stack.Screen options={{
+                headerShown: true, title: 'Editor', headerRight: () => (
+                    <View style={{flexDirection: 'row', alignItems: 'center'}}>
+                        {dirty && (
+                            <View accessibilityLabel="Unsaved changes" style={styles.dirtyDot}/>
+                        )}
+                        <Pressable onPress={() => {
+                            if (sessionId !== undefined) {
+                                editorRef.current?.saveWithoutPrompt(sessionId);
+                            } else {
+                                editorRef.current?.openSaveDialog();
+                            }
+                        }} style={{paddingHorizontal: 12}}>
+                            <MaterialIcons name="save" size={24} color={Platform.OS === 'ios' ? '#007aff' : '#fff'}/>
+                        </Pressable>
+                    </View>
+                )
+            }}/>
+            {loadingSession && (params?.sessionId || params?.draft) ? (
+                <View style={[styles.canvasWrap, {padding: 24}]}>
+                    <ActivityIndicator size="large" color="#fff"/>
+                    <Text style={{color: '#fff', opacity: 0.8, marginTop: 12}}>Loading session…</Text>
+                </View>
+            ) : imagesMissing ? (
+                <View style={[styles.canvasWrap, {padding: 24}]}>
+                    <MaterialIcons name="image-search" size={48} color="rgba(255,255,255,0.6)"/>
+                    <Text style={{color: '#fff', opacity: 0.8, marginTop: 12, textAlign: 'center'}}>
+                        This session&apos;s images are no longer on this device. Choose a replacement image to keep
+                        its notes, palette and settings.
+                    </Text>
+                    <View style={[styles.modalActions, {justifyContent: 'center'}]}>
+                        <Pressable onPress={() => router.back()} style={{paddingHorizontal: 12, paddingVertical: 8}}>
+                            <Text style={{color: '#fff'}}>Go Back</Text>
+                        </Pressable>
+                        <Pressable onPress={onRelinkImage} style={styles.modalPrimary}>
+                            <Text style={{color: '#111', fontWeight: '700'}}>Choose Image</Text>
+                        </Pressable>
+                    </View>
+                </View>
+            ) : (
+                <Editor
+                    ref={editorRef}
+                    imageUri={params?.imageUri as string | undefined}
+                    initialState={initialState}
+                    sessionId={sessionId}
+                    recovered={!!params?.draft}
+                    onDirtyChange={setDirty}
+                    onSessionCreated={setCreatedSessionId}
+                />
+            )}
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {flex: 1, backgroundColor: '#000', justifyContent: 'center'},
+    canvasWrap: {flex: 1, alignItems: 'center', justifyContent: 'center', position: 'relative'},
+    toolbar: {
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        paddingVertical: 12,
+        borderTopWidth: StyleSheet.hairlineWidth,
+        borderTopColor: 'rgba(255,255,255,0.2)',
+    },
+    toolBtn: {paddingHorizontal: 12, paddingVertical: 8, borderRadius: 8, backgroundColor: 'rgba(255,255,255,0.1)'},
+    // Narrower than toolBtn so every tool fits across a small phone
+    toolbarBtn: {paddingHorizontal: 8, paddingVertical: 8, borderRadius: 8, backgroundColor: 'rgba(255,255,255,0.1)'},
+    toolBrushBtn: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 8
+    },
+    toolText: {color: '#fff', fontWeight: '600'},
+    modalBackdrop: {
+        flex: 1,
+        backgroundColor: 'rgba(0,0,0,0.6)',
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 24
+    },
+    modalCard: {width: '100%', backgroundColor: '#111', borderRadius: 12, padding: 16},
+    modalTitle: {color: '#fff', fontSize: 18, fontWeight: '700', marginBottom: 12},
+    modalInput: {color: '#fff', backgroundColor: 'rgba(255,255,255,0.06)', borderRadius: 8, padding: 12},
+    modalActions: {flexDirection: 'row', justifyContent: 'flex-end', gap: 12, marginTop: 16},
+    modalPrimary: {paddingHorizontal: 12, paddingVertical: 8, backgroundColor: '#fff', borderRadius: 8},
+    dirtyDot: {width: 8, height: 8, borderRadius: 4, backgroundColor: '#ffd60a'},
+    modalPrimaryDisabled: {backgroundColor: 'rgba(255,255,255,0.2)'},
+    historyBar: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 12,
+        paddingVertical: 4,
+    },
+    historyLabel: {color: '#fff', opacity: 0.6, fontSize: 12, flex: 1, textAlign: 'center'},
+    brushRow: {
+        flexDirection: 'row',
+        gap: 12,
+        padding: 12,
+        alignItems: 'center',
+        justifyContent: 'space-evenly',
+    },
+    rowSection: {flex: 1, minWidth: 0},
+    scrollRow: {marginTop: 8},
+    colorSwatch: {
+        height: 28,
+        width: 28,
+        borderRadius: 14,
+        borderWidth: 2,
+        borderColor: 'rgba(255,255,255,0.6)',
+        marginRight: 8
+    },
+    colorSwatchActive: {borderColor: '#fff', borderWidth: 3},
+    widthBtn: {
+        paddingHorizontal: 8,
+        paddingVertical: 6,
+        backgroundColor: 'rgba(255,255,255,0.08)',
+        borderRadius: 8,
+        marginRight: 8
+    },
+    widthBtnActive: {
+        borderWidth: 2,
+        borderColor: '#ffd60a',
+        backgroundColor: 'rgba(255,214,10,0.15)'
+    },
+    widthLabel: { color: '#fff', fontSize: 10, opacity: 0.9, marginTop: 4, textAlign: 'center' },
+    widthPreviewWrap: {alignItems: 'center', justifyContent: 'center', paddingVertical: 4, paddingHorizontal: 8},
+    widthPreviewBar: {width: 28, backgroundColor: '#fff', borderRadius: 12},
+    widthPreviewText: {color: '#fff', fontSize: 12, opacity: 0.8, marginTop: 4, textAlign: 'center'},
+    pickerSwatch: {
+        height: 44,
+        width: 44,
+        borderRadius: 8,
+        borderWidth: StyleSheet.hairlineWidth,
+        borderColor: 'rgba(255,255,255,0.6)'
+    },
+    pickerHex: {color: '#fff', fontSize: 16, fontWeight: '700'},
+    pickerLine: {color: '#fff', fontSize: 12, opacity: 0.8},
+    pickerValue: {alignItems: 'center', minWidth: 56},
+    pickerValueNum: {color: '#fff', fontSize: 22, fontWeight: '700'},
+    gridOverlay: {position: 'absolute'},
+    aspectRow: {flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingTop: 8},
+    gridKindRow: {paddingHorizontal: 12, paddingTop: 8, gap: 8},
+    stepper: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        borderRadius: 8,
+        backgroundColor: 'rgba(255,255,255,0.08)'
+    },
+    stepperBtn: {paddingHorizontal: 6, paddingVertical: 6},
+    paletteRow: {paddingHorizontal: 12, paddingBottom: 8, gap: 12},
+    swatchStrip: {flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, paddingBottom: 8, gap: 4},
+    adjustTrack: {
+        height: 24,
+        borderRadius: 12,
+        backgroundColor: 'rgba(255,255,255,0.12)',
+        width: 140,
+        marginTop: 6,
+        overflow: 'hidden'
+    },
+    adjustFill: {position: 'absolute', left: 0, top: 0, bottom: 0, backgroundColor: 'rgba(255,255,255,0.35)'},
+    adjustThumb: {
+        position: 'absolute',
+        top: 0,
+        width: 16,
+        height: 24,
+        borderRadius: 8,
+        backgroundColor: '#fff',
+        marginLeft: -8
+    },
+    saveInput: {color: '#fff', backgroundColor: 'rgba(255,255,255,0.06)', borderRadius: 8, padding: 12},
+    saveLabel: {color: 'rgba(255,255,255,0.7)', fontSize: 12, marginTop: 14, marginBottom: 6},
+    saveChip: {paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, backgroundColor: 'rgba(255,255,255,0.1)'},
+    saveChipActive: {backgroundColor: '#fff'},
+});
\ No newline at end of file
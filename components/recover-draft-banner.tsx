@@ -0,0 +1,53 @@
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { Card } from '@/components/ui/card';
+import { Text } from '@/components/ui/text';
+
+type Props = {
+  // Name of the saved session the draft belongs to; null for a never-saved image
+  sessionName: string | null;
+  updatedAt: number;
+  onRecover: () => void;
+  onDiscard: () => void;
+};
+
+export function RecoverDraftBanner({ sessionName, updatedAt, onRecover, onDiscard }: Props) {
+  const when = new Date(updatedAt).toLocaleString();
+  return (
+    <Card size="md" variant="outline" style={styles.card}>
+      <Text size="md" className="font-semibold">Recover unsaved work?</Text>
+      <Text size="sm" className="mt-1 text-typography-600">
+        {sessionName ? `Changes to “${sessionName}”` : 'An unsaved image'} from {when} weren’t saved.
+      </Text>
+      <View style={styles.actions}>
+        <Pressable onPress={onDiscard} accessibilityRole="button" style={styles.button}>
+          <Text size="sm" className="text-typography-600">Discard</Text>
+        </Pressable>
+        <Pressable onPress={onRecover} accessibilityRole="button" style={[styles.button, styles.primary]}>
+          <Text size="sm" className="font-semibold text-typography-0">Recover</Text>
+        </Pressable>
+      </View>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  primary: {
+    backgroundColor: '#111',
+  },
+});
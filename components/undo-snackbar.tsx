@@ -0,0 +1,55 @@
+import React, { useEffect } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+
+type Props = {
+  message: string;
+  onUndo: () => void;
+  // Called when the snackbar times out without an undo
+  onDismiss: () => void;
+  duration?: number;
+};
+
+export function UndoSnackbar({ message, onUndo, onDismiss, duration = 5000 }: Props) {
+  useEffect(() => {
+    const t = setTimeout(onDismiss, duration);
+    return () => clearTimeout(t);
+  }, [message, onDismiss, duration]);
+
+  return (
+    <View style={styles.bar} accessibilityLiveRegion="polite">
+      <Text style={styles.message} numberOfLines={2}>{message}</Text>
+      <Pressable onPress={onUndo} accessibilityRole="button" hitSlop={8} style={styles.undo}>
+        <Text style={styles.undoText}>Undo</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: '#1f2937',
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  undo: {
+    paddingHorizontal: 4,
+  },
+  undoText: {
+    color: '#93c5fd',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,92 @@
+import {
+  applyAffine,
+  composeAffine,
+  cropAffine,
+  homographyFromQuads,
+  invertAffine,
+  type Affine,
+  type CropOperation,
+  type Homography,
+  type Point,
+} from '@/lib/geometry';
+
+const full = (width: number, height: number): CropOperation['crop'] => ({ originX: 0, originY: 0, width, height });
+
+const applyHomography = (h: Homography, { x, y }: Point): Point => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+};
+
+const expectIdentity = (m: Affine) => {
+  [1, 0, 0, 1, 0, 0].forEach((v, i) => expect(m[i]).toBeCloseTo(v));
+};
+
+describe('cropAffine', () => {
+  it('maps a crop of the right half onto the new image', () => {
+    const m = cropAffine({ image: { width: 200, height: 100 }, rotation: 0, flipHorizontal: false, flipVertical: false, crop: { originX: 100, originY: 0, width: 100, height: 100 } });
+    const p = applyAffine(m, { x: 0.75, y: 0.25 });
+    expect(p.x).toBeCloseTo(0.5);
+    expect(p.y).toBeCloseTo(0.5);
+  });
+
+  it('comes back to the start after rotating a quarter turn and back', () => {
+    const there = cropAffine({ image: { width: 200, height: 100 }, rotation: 90, flipHorizontal: false, flipVertical: false, crop: full(100, 200) });
+    const back = cropAffine({ image: { width: 100, height: 200 }, rotation: 270, flipHorizontal: false, flipVertical: false, crop: full(200, 100) });
+    expectIdentity(composeAffine(there, back));
+  });
+
+  it('comes back to the start after flipping twice', () => {
+    const flip: CropOperation = { image: { width: 300, height: 200 }, rotation: 0, flipHorizontal: true, flipVertical: true, crop: full(300, 200) };
+    expectIdentity(composeAffine(cropAffine(flip), cropAffine(flip)));
+  });
+
+  it('moves the top-left corner to the top-right on a clockwise quarter turn', () => {
+    const m = cropAffine({ image: { width: 200, height: 100 }, rotation: 90, flipHorizontal: false, flipVertical: false, crop: full(100, 200) });
+    const p = applyAffine(m, { x: 0, y: 0 });
+    expect(p.x).toBeCloseTo(1);
+    expect(p.y).toBeCloseTo(0);
+  });
+
+  it('is undone by its inverse for a resize, rotate, flip and crop', () => {
+    const m = cropAffine({
+      image: { width: 400, height: 300 },
+      resize: { width: 200, height: 150 },
+      rotation: 90,
+      flipHorizontal: true,
+      flipVertical: false,
+      crop: { originX: 20, originY: 30, width: 100, height: 80 },
+    });
+    const p = { x: 0.3, y: 0.6 };
+    const q = applyAffine(invertAffine(m), applyAffine(m, p));
+    expect(q.x).toBeCloseTo(p.x);
+    expect(q.y).toBeCloseTo(p.y);
+  });
+});
+
+describe('homographyFromQuads', () => {
+  const square = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+  it('scales and translates a square onto a rectangle', () => {
+    const h = homographyFromQuads(square, [{ x: 10, y: 20 }, { x: 30, y: 20 }, { x: 30, y: 60 }, { x: 10, y: 60 }]);
+    [20, 0, 10, 0, 40, 20, 0, 0, 1].forEach((v, i) => expect(h![i]).toBeCloseTo(v));
+  });
+
+  it('takes each corner onto a trapezoid and keeps the centre on the diagonals', () => {
+    const dst = [{ x: 20, y: 0 }, { x: 80, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+    const h = homographyFromQuads(square, dst)!;
+    square.forEach((p, i) => {
+      const q = applyHomography(h, p);
+      expect(q.x).toBeCloseTo(dst[i].x);
+      expect(q.y).toBeCloseTo(dst[i].y);
+    });
+    // The diagonals of the trapezoid meet at (50, 37.5)
+    const centre = applyHomography(h, { x: 0.5, y: 0.5 });
+    expect(centre.x).toBeCloseTo(50);
+    expect(centre.y).toBeCloseTo(37.5);
+  });
+
+  it('returns null when three source points are collinear', () => {
+    const flat = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 2, y: 0 }, { x: 0, y: 1 }];
+    expect(homographyFromQuads(flat, square)).toBeNull();
+  });
+});
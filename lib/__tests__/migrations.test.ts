@@ -0,0 +1,43 @@
+import { STATE_VERSION, upgradeState } from '@/lib/migrations';
+
+describe('upgradeState', () => {
+  it('fills the fields an unversioned state was saved without', () => {
+    expect(upgradeState({ originalUri: 'file:///a.jpg' })).toEqual({
+      originalUri: 'file:///a.jpg',
+      currentUri: '',
+      noteText: '',
+      strokes: [],
+      canvas: { width: 0, height: 0 },
+      swatches: [],
+      strokeUnits: 'image',
+      version: STATE_VERSION,
+    });
+  });
+
+  it('marks unversioned strokes as canvas pixels', () => {
+    const stroke = { color: '#000', width: 4, points: [{ x: 10, y: 20 }] };
+    const state = upgradeState({ originalUri: 'a', currentUri: 'b', strokes: [stroke], canvas: { width: 300, height: 200 } });
+    expect(state.strokeUnits).toBe('canvas');
+    expect(state.strokes).toEqual([stroke]);
+    expect(state.canvas).toEqual({ width: 300, height: 200 });
+  });
+
+  it('replaces fields of the wrong type', () => {
+    const state = upgradeState({ originalUri: 7, noteText: null, strokes: 'x', canvas: [], swatches: {} });
+    expect(state).toMatchObject({ originalUri: '', noteText: '', strokes: [], canvas: { width: 0, height: 0 }, swatches: [] });
+  });
+
+  it('keeps optional fields it does not know about', () => {
+    expect(upgradeState({ grid: { kind: 'thirds' } })).toMatchObject({ grid: { kind: 'thirds' } });
+  });
+
+  it('leaves a current state as it is', () => {
+    const current = { originalUri: 'a', currentUri: 'b', noteText: 'n', strokes: [], canvas: { width: 1, height: 1 }, version: STATE_VERSION };
+    expect(upgradeState(current)).toEqual(current);
+  });
+
+  it('rejects states from a newer app and damaged current states', () => {
+    expect(() => upgradeState({ version: STATE_VERSION + 1 })).toThrow('newer version');
+    expect(() => upgradeState({ version: STATE_VERSION, strokes: [] })).toThrow('damaged');
+  });
+});
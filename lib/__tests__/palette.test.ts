@@ -0,0 +1,41 @@
+import { extractPalette, pixelsFromRgba } from '@/lib/palette';
+
+const repeat = <T,>(value: T, n: number): T[] => Array.from({ length: n }, () => value);
+
+describe('pixelsFromRgba', () => {
+  it('skips mostly transparent pixels', () => {
+    expect(pixelsFromRgba([255, 0, 0, 255, 0, 255, 0, 10, 0, 0, 255, 128])).toEqual([
+      { r: 255, g: 0, b: 0 },
+      { r: 0, g: 0, b: 255 },
+    ]);
+  });
+});
+
+describe('extractPalette', () => {
+  const red = { r: 200, g: 30, b: 30 };
+  const blue = { r: 20, g: 40, b: 180 };
+  const white = { r: 250, g: 250, b: 250 };
+
+  it('finds each flat color ordered by area', () => {
+    const pixels = [...repeat(blue, 20), ...repeat(white, 50), ...repeat(red, 30)];
+    expect(extractPalette(pixels, 3)).toEqual([
+      { hex: '#fafafa', share: 0.5 },
+      { hex: '#c81e1e', share: 0.3 },
+      { hex: '#1428b4', share: 0.2 },
+    ]);
+  });
+
+  it('merges clusters that end up the same color', () => {
+    expect(extractPalette(repeat(red, 10), 5)).toEqual([{ hex: '#c81e1e', share: 1 }]);
+  });
+
+  it('gives the same palette on every run', () => {
+    const pixels = Array.from({ length: 200 }, (_, i) => ({ r: (i * 37) % 256, g: (i * 91) % 256, b: (i * 53) % 256 }));
+    expect(extractPalette(pixels, 5)).toEqual(extractPalette([...pixels], 5));
+  });
+
+  it('returns nothing for no pixels or no colors', () => {
+    expect(extractPalette([], 5)).toEqual([]);
+    expect(extractPalette([red], 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import type { Size } from '@/lib/geometry';
+
+export type AspectPreset = { id: string; label: string; w: number; h: number };
+
+// Stored on EditorState.canvas; w/h already reflect the chosen orientation
+export type CanvasAspect = { id: string; w: number; h: number };
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: '1:1', label: '1:1', w: 1, h: 1 },
+  { id: '4:5', label: '4:5', w: 4, h: 5 },
+  { id: '3:4', label: '3:4', w: 3, h: 4 },
+  { id: '2:3', label: '2:3', w: 2, h: 3 },
+  { id: '16:9', label: '16:9', w: 16, h: 9 },
+  // ISO 216 A-series sheets share a 1:√2 ratio
+  { id: 'A', label: 'A4/A3', w: 1, h: Math.SQRT2 },
+  { id: '8x10', label: '8×10', w: 8, h: 10 },
+  { id: '9x12', label: '9×12', w: 9, h: 12 },
+  { id: '11x14', label: '11×14', w: 11, h: 14 },
+  { id: '16x20', label: '16×20', w: 16, h: 20 },
+  { id: 'custom', label: 'Custom', w: 5, h: 7 },
+];
+
+export const DEFAULT_ASPECT: CanvasAspect = { id: '2:3', w: 2, h: 3 };
+
+export function isLandscape(aspect: CanvasAspect) {
+  return aspect.w > aspect.h;
+}
+
+// Swap to the other orientation, keeping the same preset
+export function rotateAspect(aspect: CanvasAspect): CanvasAspect {
+  return { ...aspect, w: aspect.h, h: aspect.w };
+}
+
+// Apply a preset in its native orientation, unless the user already switched to landscape
+export function applyPreset(preset: AspectPreset, current: CanvasAspect): CanvasAspect {
+  const next = { id: preset.id, w: preset.w, h: preset.h };
+  if (isLandscape(current) && !isLandscape(next)) return rotateAspect(next);
+  return next;
+}
+
+// Largest box with the aspect's ratio that fits within `bounds`
+export function fitAspect(aspect: CanvasAspect, bounds: Size): Size {
+  const ratio = aspect.w / aspect.h;
+  if (bounds.width / bounds.height > ratio) {
+    return { width: bounds.height * ratio, height: bounds.height };
+  }
+  return { width: bounds.width, height: bounds.width / ratio };
+}
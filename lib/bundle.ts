@@ -0,0 +1,276 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+import { ensurePreviewDir, getSession, saveSession, type EditorState } from '@/lib/sessions';
+import { upgradeState } from '@/lib/migrations';
+import { downloadBlob } from '@/lib/download';
+import { isRecord } from '@/lib/guards';
+
+export const BUNDLE_EXTENSION = 'chromaframe';
+export const BUNDLE_MIME_TYPE = 'application/octet-stream';
+// Declared in app.json so iOS offers to open .chromaframe files with the app
+export const BUNDLE_UTI = 'com.fwrks.chromaframe.session';
+
+const BUNDLE_FORMAT = 'chromaframe-session';
+// Several sessions in one file, written by batch export
+const ARCHIVE_FORMAT = 'chromaframe-sessions';
+const BUNDLE_VERSION = 1;
+
+const BUNDLE_FILE_KEYS = ['original', 'working', 'preview', 'compare'] as const;
+type BundleFileKey = (typeof BUNDLE_FILE_KEYS)[number];
+
+type BundleFile = {
+  ext: string;
+  // Base64 file contents
+  data: string;
+};
+
+/**
+ * A session archive: one JSON document with the editor state and every image it points at
+ * embedded as base64. Image URIs in `state` are replaced by keys into `files`.
+ */
+export type SessionBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  name: string;
+  createdAt: number;
+  exportedAt: number;
+  state: EditorState;
+  files: Partial<Record<BundleFileKey, BundleFile>>;
+};
+
+export type SessionArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: SessionBundle[];
+};
+
+const fileExt = (uri: string, fallback = 'jpg') => {
+  const m = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(uri);
+  return m ? m[1].toLowerCase() : fallback;
+};
+
+async function readFile(uri: string): Promise<BundleFile | null> {
+  // Web sessions keep their images inline
+  const inline = /^data:[^/;,]+\/([^;,+]+)[^,]*;base64,/.exec(uri);
+  if (inline) {
+    return { ext: inline[1] === 'jpeg' ? 'jpg' : inline[1], data: uri.slice(inline[0].length) };
+  }
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (!info.exists) return null;
+    const data = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    return { ext: fileExt(uri), data };
+  } catch (e) {
+    console.warn('Failed to read bundle file', uri, e);
+    return null;
+  }
+}
+
+async function writeFile(dir: string, key: string, file: BundleFile) {
+  const uri = `${dir}${key}.${file.ext}`;
+  await FileSystem.writeAsStringAsync(uri, file.data, { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+}
+
+const safeFileName = (name: string) => name.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-') || 'session';
+
+async function packSession(id: number): Promise<SessionBundle> {
+  const row = await getSession(id);
+  if (!row) throw new Error('Session not found');
+  const state: EditorState = JSON.parse(row.state_json);
+
+  const original = await readFile(state.originalUri);
+  const working = state.currentUri && state.currentUri !== state.originalUri ? await readFile(state.currentUri) : null;
+  if (!original && !working) throw new Error('The session images are missing');
+  const preview = row.preview_uri ? await readFile(row.preview_uri) : null;
+  const compare = state.compare ? await readFile(state.compare.uri) : null;
+
+  const files: SessionBundle['files'] = {};
+  if (original) files.original = original;
+  if (working) files.working = working;
+  if (preview) files.preview = preview;
+  if (compare) files.compare = compare;
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    name: row.name,
+    createdAt: row.created_at,
+    exportedAt: Date.now(),
+    state: {
+      ...state,
+      originalUri: original ? 'original' : 'working',
+      currentUri: working ? 'working' : 'original',
+      compare: compare && state.compare ? { ...state.compare, uri: 'compare' } : undefined,
+      // Undo steps reference intermediate crop images on this device that aren't bundled
+      history: undefined,
+    },
+    files,
+  };
+}
+
+// One file holding every given session; a single id gives a plain session bundle
+async function packSessions(ids: number[]): Promise<{ fileName: string; json: string }> {
+  if (ids.length === 1) {
+    const bundle = await packSession(ids[0]);
+    return { fileName: `${safeFileName(bundle.name)}.${BUNDLE_EXTENSION}`, json: JSON.stringify(bundle) };
+  }
+  const archive: SessionArchive = {
+    format: ARCHIVE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    sessions: [],
+  };
+  // Sequential so only one session's images are being read at a time
+  for (const id of ids) {
+    archive.sessions.push(await packSession(id));
+  }
+  return { fileName: `ChromaFrame-${ids.length}-sessions.${BUNDLE_EXTENSION}`, json: JSON.stringify(archive) };
+}
+
+export function exportSessionBundle(id: number): Promise<string> {
+  return exportSessionsBundle([id]);
+}
+
+export async function exportSessionsBundle(ids: number[]): Promise<string> {
+  const { fileName, json } = await packSessions(ids);
+  const uri = `${FileSystem.cacheDirectory}${fileName}`;
+  await FileSystem.writeAsStringAsync(uri, json);
+  return uri;
+}
+
+// The web build can't share files, so the bundle is downloaded instead
+export async function downloadSessionsBundle(ids: number[]) {
+  const { fileName, json } = await packSessions(ids);
+  downloadBlob(new Blob([json], { type: BUNDLE_MIME_TYPE }), fileName);
+}
+
+function checkVersion(parsed: Record<string, unknown>): number {
+  if (typeof parsed.version !== 'number' || parsed.version > BUNDLE_VERSION) {
+    throw new Error('This session file was made by a newer version of the app');
+  }
+  return parsed.version;
+}
+
+const isBundleFile = (value: unknown): value is BundleFile =>
+  isRecord(value) && typeof value.ext === 'string' && /^[a-z0-9]+$/i.test(value.ext) && typeof value.data === 'string';
+
+// Bundles come from anywhere, so every field is checked before use
+function checkBundle(parsed: unknown): SessionBundle {
+  if (!isRecord(parsed) || parsed.format !== BUNDLE_FORMAT || !isRecord(parsed.state) || !isRecord(parsed.files)) {
+    throw new Error('Not a ChromaFrame session file');
+  }
+  const version = checkVersion(parsed);
+  const files: SessionBundle['files'] = {};
+  for (const key of BUNDLE_FILE_KEYS) {
+    const file = parsed.files[key];
+    if (file === undefined) continue;
+    if (!isBundleFile(file)) throw new Error('The session file is damaged');
+    files[key] = file;
+  }
+  if (!files.original && !files.working) {
+    throw new Error('The session file contains no image');
+  }
+  return {
+    format: BUNDLE_FORMAT,
+    version,
+    name: typeof parsed.name === 'string' ? parsed.name : '',
+    createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : Date.now(),
+    exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : Date.now(),
+    // Bundles from older app versions carry older state JSON
+    state: upgradeState(parsed.state),
+    files,
+  };
+}
+
+// Accepts single-session bundles and batch archives alike
+export function parseSessionBundle(text: string): SessionBundle[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a ChromaFrame session file');
+  }
+  if (isRecord(parsed) && parsed.format === ARCHIVE_FORMAT) {
+    checkVersion(parsed);
+    if (!Array.isArray(parsed.sessions) || !parsed.sessions.length) {
+      throw new Error('The session file contains no sessions');
+    }
+    return parsed.sessions.map(checkBundle);
+  }
+  return [checkBundle(parsed)];
+}
+
+/**
+ * Recreates the sessions in a .chromaframe file: unpacks the images, points the state at them
+ * and inserts new rows. Returns the new session ids in file order.
+ */
+export async function importSessionBundle(uri: string): Promise<number[]> {
+  let copy: string | null = null;
+  try {
+    let text: string;
+    if (Platform.OS === 'web') {
+      // The web picker hands out blob: URLs
+      text = await (await fetch(uri)).text();
+    } else {
+      // Content URIs from share intents may not stay readable, so work from a local copy
+      if (!uri.startsWith('file://')) {
+        copy = `${FileSystem.cacheDirectory}import-${Date.now()}.${BUNDLE_EXTENSION}`;
+        await FileSystem.copyAsync({ from: uri, to: copy });
+      }
+      text = await FileSystem.readAsStringAsync(copy ?? uri);
+    }
+    const ids: number[] = [];
+    for (const [i, bundle] of parseSessionBundle(text).entries()) {
+      ids.push(await unpackSession(bundle, `${Date.now()}-${i}`));
+    }
+    return ids;
+  } finally {
+    if (copy) await FileSystem.deleteAsync(copy, { idempotent: true }).catch(() => undefined);
+  }
+}
+
+const inlineFile = (file: BundleFile) => `data:image/${file.ext === 'jpg' ? 'jpeg' : file.ext};base64,${file.data}`;
+
+async function unpackSession(bundle: SessionBundle, stamp: string): Promise<number> {
+  // Web sessions keep their images inline, so the bundle's base64 is used as is
+  if (Platform.OS === 'web') {
+    const inline: Partial<Record<BundleFileKey, string>> = {};
+    for (const key of BUNDLE_FILE_KEYS) {
+      const file = bundle.files[key];
+      if (file) inline[key] = inlineFile(file);
+    }
+    return saveUnpacked(bundle, inline, inline.preview ?? null);
+  }
+  // Unpacked to the cache; saveSession copies them into the new session's own folder
+  const dir = `${FileSystem.cacheDirectory}import-${stamp}/`;
+  await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  try {
+    const written: Partial<Record<BundleFileKey, string>> = {};
+    for (const key of ['original', 'working', 'compare'] as const) {
+      const file = bundle.files[key];
+      if (file) written[key] = await writeFile(dir, key, file);
+    }
+    let previewUri: string | null = null;
+    if (bundle.files.preview) {
+      previewUri = await writeFile(await ensurePreviewDir(), `preview-${stamp}`, bundle.files.preview);
+    }
+    return await saveUnpacked(bundle, written, previewUri);
+  } finally {
+    await FileSystem.deleteAsync(dir, { idempotent: true }).catch(() => undefined);
+  }
+}
+
+// Points the bundle's state at its unpacked images and inserts the session
+function saveUnpacked(bundle: SessionBundle, written: Partial<Record<BundleFileKey, string>>, previewUri: string | null) {
+  const resolve = (ref: string) => written[ref as BundleFileKey] ?? written.working ?? written.original ?? '';
+  const state: EditorState = {
+    ...bundle.state,
+    originalUri: resolve(bundle.state.originalUri),
+    currentUri: resolve(bundle.state.currentUri),
+    compare: bundle.state.compare && written.compare ? { ...bundle.state.compare, uri: written.compare } : undefined,
+  };
+  return saveSession(bundle.name || 'Imported session', state, previewUri);
+}
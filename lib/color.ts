@@ -0,0 +1,85 @@
+export type RGB = { r: number; g: number; b: number };
+export type HSL = { h: number; s: number; l: number };
+
+export type ColorReading = {
+  hex: string;
+  rgb: RGB;
+  hsl: HSL;
+  // Perceptual value on a 0 (black) – 100 (white) scale, based on CIE L*
+  value: number;
+};
+
+const clamp255 = (n: number) => Math.max(0, Math.min(255, Math.round(n)));
+
+export function rgbToHex({ r, g, b }: RGB): string {
+  const toHex = (n: number) => clamp255(n).toString(16).padStart(2, '0');
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+}
+
+export function hexToRgb(hex: string): RGB | null {
+  let h = hex.trim().replace(/^#/, '');
+  if (h.length === 3) {
+    h = h.split('').map((c) => c + c).join('');
+  }
+  if (!/^[0-9a-fA-F]{6}$/.test(h)) return null;
+  return {
+    r: parseInt(h.slice(0, 2), 16),
+    g: parseInt(h.slice(2, 4), 16),
+    b: parseInt(h.slice(4, 6), 16),
+  };
+}
+
+export function rgbToHsl({ r, g, b }: RGB): HSL {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  let h = 0;
+  let s = 0;
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+    else if (max === gn) h = (bn - rn) / d + 2;
+    else h = (rn - gn) / d + 4;
+    h *= 60;
+  }
+  return { h: Math.round(h), s: Math.round(s * 100), l: Math.round(l * 100) };
+}
+
+// sRGB channel (0–255) to linear light (0–1)
+function toLinear(c: number) {
+  const n = c / 255;
+  return n <= 0.04045 ? n / 12.92 : Math.pow((n + 0.055) / 1.055, 2.4);
+}
+
+export function relativeLuminance({ r, g, b }: RGB): number {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+// CIE L* lightness (0–100), which tracks how painters judge value far better than HSL lightness
+export function rgbToValue(rgb: RGB): number {
+  const y = relativeLuminance(rgb);
+  const l = y > 216 / 24389 ? 116 * Math.cbrt(y) - 16 : (24389 / 27) * y;
+  return Math.max(0, Math.min(100, Math.round(l)));
+}
+
+export function readColor(rgb: RGB): ColorReading {
+  const rounded = { r: clamp255(rgb.r), g: clamp255(rgb.g), b: clamp255(rgb.b) };
+  return {
+    hex: rgbToHex(rounded),
+    rgb: rounded,
+    hsl: rgbToHsl(rounded),
+    value: rgbToValue(rounded),
+  };
+}
+
+export function formatRgb({ r, g, b }: RGB) {
+  return `${r}, ${g}, ${b}`;
+}
+
+export function formatHsl({ h, s, l }: HSL) {
+  return `${h}°, ${s}%, ${l}%`;
+}
@@ -0,0 +1,76 @@
+import type { Point, Size } from '@/lib/geometry';
+
+export type CompareMode = 'side' | 'split' | 'onion';
+
+export type CompareSettings = {
+  // Second photo, e.g. of the painting in progress
+  uri: string;
+  mode: CompareMode;
+  // Onion-skin opacity of the photo, 0–1
+  opacity: number;
+  // Split-slider position across the canvas, 0–1
+  split: number;
+  // Where the photo's top-left, top-right, bottom-right and bottom-left corners land, in the
+  // working image's image-width units (the same space as strokes)
+  corners: Point[];
+};
+
+export const COMPARE_MODES: { mode: CompareMode; label: string }[] = [
+  { mode: 'side', label: 'Side by side' },
+  { mode: 'split', label: 'Split' },
+  { mode: 'onion', label: 'Onion skin' },
+];
+
+export const DEFAULT_COMPARE_OPACITY = 0.5;
+
+// The photo is drawn into this square and warped from there onto `corners`
+export const UNIT_QUAD: Point[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+// Starting alignment: the photo fitted inside `frame` with a margin, so every handle is in reach
+export function fitCorners(photo: Size, frame: { x: number; y: number; width: number; height: number }, inset = 0.1): Point[] {
+  const scale = Math.min(frame.width / photo.width, frame.height / photo.height) * (1 - 2 * inset);
+  const w = photo.width * scale;
+  const h = photo.height * scale;
+  const x = frame.x + (frame.width - w) / 2;
+  const y = frame.y + (frame.height - h) / 2;
+  return [
+    { x, y },
+    { x: x + w, y },
+    { x: x + w, y: y + h },
+    { x, y: y + h },
+  ];
+}
+
+// A crossed or folded quad has no sensible perspective warp, so drags that would make one are ignored
+export function isConvexQuad(quad: Point[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-9) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+}
+
+// Two half-size copies of the canvas, stacked on a portrait canvas and side by side otherwise
+export function sidePanels(view: Size): { x: number; y: number; scale: number }[] {
+  if (view.height >= view.width) {
+    return [
+      { x: view.width / 4, y: 0, scale: 0.5 },
+      { x: view.width / 4, y: view.height / 2, scale: 0.5 },
+    ];
+  }
+  return [
+    { x: 0, y: view.height / 4, scale: 0.5 },
+    { x: view.width / 2, y: view.height / 4, scale: 0.5 },
+  ];
+}
@@ -0,0 +1,19 @@
+// Browser downloads for the web build, which has no share sheet or app file system
+export function downloadBlob(blob: Blob, fileName: string) {
+  const href = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(href), 1000);
+}
+
+// Downloads a data: or blob: URI, naming the file after its content type
+export async function downloadUri(uri: string, baseName: string) {
+  const blob = await (await fetch(uri)).blob();
+  const subtype = blob.type.split('/')[1]?.split('+')[0] || 'bin';
+  downloadBlob(blob, `${baseName}.${subtype === 'jpeg' ? 'jpg' : subtype}`);
+}
@@ -0,0 +1,154 @@
+import { ImageFormat, type SkImage } from '@shopify/react-native-skia';
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+
+import type { EditorStroke } from '@/lib/sessions';
+import { goldenSpiralPath, gridLines, spiralTransform, type GridConfig } from '@/lib/grids';
+import { scaleAffine } from '@/lib/geometry';
+import { downloadBlob } from '@/lib/download';
+import { transformStroke } from '@/lib/strokes';
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp' | 'pdf' | 'svg';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; mimeType: string; ext: string }[] = [
+  { format: 'png', label: 'PNG', mimeType: 'image/png', ext: 'png' },
+  { format: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', ext: 'jpg' },
+  { format: 'webp', label: 'WebP', mimeType: 'image/webp', ext: 'webp' },
+  { format: 'pdf', label: 'PDF', mimeType: 'application/pdf', ext: 'pdf' },
+  { format: 'svg', label: 'SVG', mimeType: 'image/svg+xml', ext: 'svg' },
+];
+
+export const DEFAULT_EXPORT_QUALITY = 90;
+
+export function formatInfo(format: ExportFormat) {
+  return EXPORT_FORMATS.find((f) => f.format === format) ?? EXPORT_FORMATS[0];
+}
+
+export function hasQuality(format: ExportFormat) {
+  return format === 'jpeg' || format === 'webp';
+}
+
+export function exportFileUri(format: ExportFormat) {
+  return `${FileSystem.cacheDirectory}chromaframe-${Date.now()}.${formatInfo(format).ext}`;
+}
+
+// Raster encode; quality (0–100) only applies to lossy formats
+export function encodeImage(image: SkImage, format: 'png' | 'jpeg' | 'webp', quality = DEFAULT_EXPORT_QUALITY) {
+  switch (format) {
+    case 'jpeg':
+      return image.encodeToBase64(ImageFormat.JPEG, quality);
+    case 'webp':
+      return image.encodeToBase64(ImageFormat.WEBP, quality);
+    case 'png':
+    default:
+      return image.encodeToBase64(ImageFormat.PNG, 100);
+  }
+}
+
+// Web counterpart of writing the export to the cache and sharing it
+export function downloadExport(format: ExportFormat, data: { base64: string } | { text: string }) {
+  const info = formatInfo(format);
+  let blob: Blob;
+  if ('base64' in data) {
+    const bytes = Uint8Array.from(atob(data.base64), (c) => c.charCodeAt(0));
+    blob = new Blob([bytes], { type: info.mimeType });
+  } else {
+    blob = new Blob([data.text], { type: info.mimeType });
+  }
+  downloadBlob(blob, `chromaframe-${Date.now()}.${info.ext}`);
+}
+
+async function writeBase64(uri: string, base64: string) {
+  await FileSystem.writeAsStringAsync(uri, base64, { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+}
+
+export async function writeRasterExport(image: SkImage, format: 'png' | 'jpeg' | 'webp', quality?: number) {
+  const base64 = encodeImage(image, format, quality);
+  if (!base64) throw new Error('Encoding failed');
+  return writeBase64(exportFileUri(format), base64);
+}
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export type LayeredSvgInput = {
+  // Base image without annotations, embedded as a data URI
+  imageBase64: string;
+  imageMime: string;
+  width: number;
+  height: number;
+  strokes: EditorStroke[];
+  grid?: GridConfig | null;
+};
+
+/**
+ * SVG with the image, annotations and grid in separate layers. Strokes stay vector paths in
+ * output pixels so they remain editable in Illustrator/Inkscape/Figma.
+ */
+export function buildLayeredSvg(input: LayeredSvgInput): string {
+  const { width: w, height: h } = input;
+  const layer = (id: string, label: string, body: string) =>
+    `  <g id="${id}" inkscape:groupmode="layer" inkscape:label="${label}">\n${body}  </g>\n`;
+
+  const toPixels = scaleAffine(w);
+  let strokes = '';
+  for (const s of input.strokes) {
+    const t = transformStroke(s, toPixels);
+    if (!t) continue;
+    strokes += `    <path d="${escapeXml(t.pathSvg)}" fill="none" stroke="${escapeXml(t.color)}" stroke-width="${t.width.toFixed(2)}"/>\n`;
+  }
+
+  let grid = '';
+  if (input.grid?.overlay) {
+    const g = input.grid;
+    const attrs = `stroke="${escapeXml(g.color)}" stroke-opacity="${g.opacity}" stroke-width="${Math.max(1, w / 600).toFixed(2)}" fill="none"`;
+    for (const l of gridLines(g, w, h)) {
+      grid += `    <line x1="${l.x1}" y1="${l.y1}" x2="${l.x2}" y2="${l.y2}" ${attrs}/>\n`;
+    }
+    if (g.kind === 'spiral') {
+      grid += `    <path d="${goldenSpiralPath(w, h)}" transform="${spiralTransform(g.spiralRotation, w, h)}" ${attrs}/>\n`;
+    }
+  }
+
+  return (
+    `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ` +
+    `xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ` +
+    `width="${w}" height="${h}" viewBox="0 0 ${w} ${h}">\n` +
+    layer(
+      'image',
+      'Image',
+      `    <image width="${w}" height="${h}" xlink:href="data:${input.imageMime};base64,${input.imageBase64}"/>\n`
+    ) +
+    layer('annotations', 'Annotations', strokes) +
+    (grid ? layer('grid', 'Grid', grid) : '') +
+    `</svg>\n`
+  );
+}
+
+export async function writeSvgExport(input: LayeredSvgInput) {
+  const uri = exportFileUri('svg');
+  await FileSystem.writeAsStringAsync(uri, buildLayeredSvg(input));
+  return uri;
+}
+
+// Single-page PDF with the rendered image centered on the page
+export async function writeImagePdf(imageBase64: string, imageMime: string, width: number, height: number) {
+  const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"/>
+<style>
+  @page { margin: 0; }
+  html, body { margin: 0; padding: 0; }
+  img { display: block; width: 100%; height: 100%; object-fit: contain; }
+</style></head>
+<body><img src="data:${imageMime};base64,${imageBase64}"/></body></html>`;
+  // Page points at 72 PPI; keep the image's aspect ratio with the long edge on an A4-ish 842pt page
+  const k = 842 / Math.max(width, height);
+  const { uri } = await Print.printToFileAsync({
+    html,
+    width: Math.round(width * k),
+    height: Math.round(height * k),
+  });
+  return uri;
+}
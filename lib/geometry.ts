@@ -0,0 +1,172 @@
+export type Size = { width: number; height: number };
+export type Point = { x: number; y: number };
+
+export type CoverTransform = {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+};
+
+// Mirrors Skia's fit="cover": scale the image to fill the view and center the overflow
+export function coverTransform(image: Size, view: Size): CoverTransform {
+  const scale = Math.max(view.width / image.width, view.height / image.height);
+  return {
+    scale,
+    offsetX: (view.width - image.width * scale) / 2,
+    offsetY: (view.height - image.height * scale) / 2,
+  };
+}
+
+export function viewToImagePoint(p: Point, image: Size, view: Size): Point {
+  const t = coverTransform(image, view);
+  return {
+    x: (p.x - t.offsetX) / t.scale,
+    y: (p.y - t.offsetY) / t.scale,
+  };
+}
+
+export function imageToViewPoint(p: Point, image: Size, view: Size): Point {
+  const t = coverTransform(image, view);
+  return {
+    x: p.x * t.scale + t.offsetX,
+    y: p.y * t.scale + t.offsetY,
+  };
+}
+
+// 2D affine transform in SVG order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type Affine = [number, number, number, number, number, number];
+
+export const IDENTITY_AFFINE: Affine = [1, 0, 0, 1, 0, 0];
+
+export function translateAffine(tx: number, ty: number): Affine {
+  return [1, 0, 0, 1, tx, ty];
+}
+
+export function scaleAffine(sx: number, sy = sx): Affine {
+  return [sx, 0, 0, sy, 0, 0];
+}
+
+// Clockwise on screen (y axis pointing down)
+export function rotateAffine(degrees: number): Affine {
+  const r = (degrees * Math.PI) / 180;
+  const cos = Math.cos(r);
+  const sin = Math.sin(r);
+  return [cos, sin, -sin, cos, 0, 0];
+}
+
+// Compose so that `first` is applied before `second`
+export function composeAffine(first: Affine, second: Affine): Affine {
+  const [a1, b1, c1, d1, e1, f1] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+  return [
+    a2 * a1 + c2 * b1,
+    b2 * a1 + d2 * b1,
+    a2 * c1 + c2 * d1,
+    b2 * c1 + d2 * d1,
+    a2 * e1 + c2 * f1 + e2,
+    b2 * e1 + d2 * f1 + f2,
+  ];
+}
+
+export function applyAffine(m: Affine, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+// Uniform scale factor of a similarity transform, used to scale stroke widths
+export function affineScale(m: Affine): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+// Row-major 3×3 matrix as accepted by Skia
+export function affineToMatrix3(m: Affine): number[] {
+  return [m[0], m[2], m[4], m[1], m[3], m[5], 0, 0, 1];
+}
+
+export function invertAffine(m: Affine): Affine {
+  const [a, b, c, d, e, f] = m;
+  const det = a * d - b * c;
+  if (!det) return IDENTITY_AFFINE;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+/**
+ * Strokes are stored in image-width units: x spans 0–1 across the working image and y spans
+ * 0–height/width, so they stay anchored to the image at any display size. This maps those
+ * units onto a view showing the image with fit="cover".
+ */
+export function imageUnitsToView(image: Size, view: Size): Affine {
+  const t = coverTransform(image, view);
+  return [t.scale * image.width, 0, 0, t.scale * image.width, t.offsetX, t.offsetY];
+}
+
+export type CropOperation = {
+  // Working image before the crop, in pixels
+  image: Size;
+  resize?: Size;
+  // Degrees clockwise, applied after resize
+  rotation: number;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  crop: { originX: number; originY: number; width: number; height: number };
+};
+
+/**
+ * Maps image-width units over the old image to image-width units over the cropped image,
+ * following the same resize → rotate → flip → crop order as the image manipulator.
+ */
+export function cropAffine(op: CropOperation): Affine {
+  let m = scaleAffine(op.image.width);
+  let size = op.image;
+  if (op.resize) {
+    m = composeAffine(m, scaleAffine(op.resize.width / size.width, op.resize.height / size.height));
+    size = op.resize;
+  }
+  if (op.rotation % 360 !== 0) {
+    const r = (op.rotation * Math.PI) / 180;
+    const rotated = {
+      width: Math.abs(size.width * Math.cos(r)) + Math.abs(size.height * Math.sin(r)),
+      height: Math.abs(size.width * Math.sin(r)) + Math.abs(size.height * Math.cos(r)),
+    };
+    m = composeAffine(m, translateAffine(-size.width / 2, -size.height / 2));
+    m = composeAffine(m, rotateAffine(op.rotation));
+    m = composeAffine(m, translateAffine(rotated.width / 2, rotated.height / 2));
+    size = rotated;
+  }
+  if (op.flipHorizontal) m = composeAffine(m, [-1, 0, 0, 1, size.width, 0]);
+  if (op.flipVertical) m = composeAffine(m, [1, 0, 0, -1, 0, size.height]);
+  m = composeAffine(m, translateAffine(-op.crop.originX, -op.crop.originY));
+  return composeAffine(m, scaleAffine(1 / op.crop.width));
+}
+
+// Perspective transform as a row-major 3×3 matrix, the form Skia accepts for Group `matrix`
+export type Homography = number[];
+
+/**
+ * Solves for the perspective transform taking each of the four `src` points onto the matching
+ * `dst` point. Returns null when the points don't determine one, e.g. three `src` points are collinear.
+ */
+export function homographyFromQuads(src: Point[], dst: Point[]): Homography | null {
+  // Eight equations in the unknowns a…h of [a b c; d e f; g h 1]; the last column is the right side
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const f = rows[r][col] / rows[col][col];
+      for (let k = col; k < 9; k++) rows[r][k] -= f * rows[col][k];
+    }
+  }
+  const h = rows.map((row, i) => row[8] / row[i]);
+  return [...h, 1];
+}
@@ -0,0 +1,174 @@
+export type GridKind = 'thirds' | 'custom' | 'phi' | 'spiral' | 'diagonals' | 'center' | 'square';
+export type GridUnit = 'cm' | 'in';
+
+export type GridConfig = {
+  kind: GridKind;
+  // Custom N×M grid
+  rows: number;
+  cols: number;
+  // Golden spiral orientation, 0–3 (mirrored around the frame's axes)
+  spiralRotation: number;
+  // Square transfer grid: cell size and support width in real-world units
+  cellSize: number;
+  supportWidth: number;
+  unit: GridUnit;
+  color: string;
+  opacity: number;
+  // Keep the grid visible outside crop mode as a drawing overlay
+  overlay: boolean;
+};
+
+export type GridLine = { x1: number; y1: number; x2: number; y2: number };
+
+export const GRID_KINDS: { kind: GridKind; label: string }[] = [
+  { kind: 'thirds', label: 'Thirds' },
+  { kind: 'custom', label: 'N×M' },
+  { kind: 'phi', label: 'Phi' },
+  { kind: 'spiral', label: 'Spiral' },
+  { kind: 'diagonals', label: 'Diagonals' },
+  { kind: 'center', label: 'Center' },
+  { kind: 'square', label: 'Squares' },
+];
+
+export const GRID_COLORS = ['#ffffff', '#000000', '#ffd60a', '#ff453a', '#32d74b'];
+
+export const DEFAULT_GRID: GridConfig = {
+  kind: 'thirds',
+  rows: 4,
+  cols: 4,
+  spiralRotation: 0,
+  cellSize: 5,
+  supportWidth: 40,
+  unit: 'cm',
+  color: '#ffffff',
+  opacity: 0.6,
+  overlay: false,
+};
+
+export const PHI = (1 + Math.sqrt(5)) / 2;
+
+function divisions(w: number, h: number, cols: number, rows: number): GridLine[] {
+  const lines: GridLine[] = [];
+  for (let i = 1; i < cols; i++) {
+    const x = (w * i) / cols;
+    lines.push({ x1: x, y1: 0, x2: x, y2: h });
+  }
+  for (let j = 1; j < rows; j++) {
+    const y = (h * j) / rows;
+    lines.push({ x1: 0, y1: y, x2: w, y2: y });
+  }
+  return lines;
+}
+
+// Main diagonals plus their reciprocals (perpendiculars dropped from the remaining corners)
+function diagonals(w: number, h: number): GridLine[] {
+  const t = Math.min(w / h, h / w);
+  return [
+    // Baroque (bottom-left to top-right) and its reciprocals
+    { x1: 0, y1: h, x2: w, y2: 0 },
+    { x1: 0, y1: 0, x2: t * h, y2: t * w },
+    { x1: w, y1: h, x2: w - t * h, y2: h - t * w },
+    // Sinister (top-left to bottom-right) and its reciprocals
+    { x1: 0, y1: 0, x2: w, y2: h },
+    { x1: 0, y1: h, x2: t * h, y2: h - t * w },
+    { x1: w, y1: 0, x2: w - t * h, y2: t * w },
+  ];
+}
+
+function squares(w: number, h: number, config: GridConfig): GridLine[] {
+  if (config.cellSize <= 0 || config.supportWidth <= 0) return [];
+  const cell = (w * config.cellSize) / config.supportWidth;
+  // Guard against absurdly dense grids
+  if (cell < 4) return [];
+  const lines: GridLine[] = [];
+  for (let x = cell; x < w - 0.5; x += cell) lines.push({ x1: x, y1: 0, x2: x, y2: h });
+  for (let y = cell; y < h - 0.5; y += cell) lines.push({ x1: 0, y1: y, x2: w, y2: y });
+  return lines;
+}
+
+export function gridLines(config: GridConfig, w: number, h: number): GridLine[] {
+  switch (config.kind) {
+    case 'thirds':
+      return divisions(w, h, 3, 3);
+    case 'custom':
+      return divisions(w, h, Math.max(1, config.cols), Math.max(1, config.rows));
+    case 'phi': {
+      const a = 1 - 1 / PHI;
+      const b = 1 / PHI;
+      return [
+        { x1: w * a, y1: 0, x2: w * a, y2: h },
+        { x1: w * b, y1: 0, x2: w * b, y2: h },
+        { x1: 0, y1: h * a, x2: w, y2: h * a },
+        { x1: 0, y1: h * b, x2: w, y2: h * b },
+      ];
+    }
+    case 'diagonals':
+      return diagonals(w, h);
+    case 'center':
+      return divisions(w, h, 2, 2);
+    case 'square':
+      return squares(w, h, config);
+    case 'spiral':
+    default:
+      return [];
+  }
+}
+
+/**
+ * SVG path for a golden spiral fitted to a w×h frame. Each step cuts 1/φ of the remaining
+ * rectangle (left, top, right, bottom in turn) and draws a quarter ellipse through it, so the
+ * spiral stretches to any aspect ratio. Orientation is applied by the caller via mirroring.
+ */
+export function goldenSpiralPath(w: number, h: number, steps = 10): string {
+  let x = 0;
+  let y = 0;
+  let rw = w;
+  let rh = h;
+  let d = `M 0 ${h}`;
+  for (let i = 0; i < steps; i++) {
+    switch (i % 4) {
+      case 0: {
+        const cw = rw / PHI;
+        d += ` A ${cw} ${rh} 0 0 1 ${x + cw} ${y}`;
+        x += cw;
+        rw -= cw;
+        break;
+      }
+      case 1: {
+        const ch = rh / PHI;
+        d += ` A ${rw} ${ch} 0 0 1 ${x + rw} ${y + ch}`;
+        y += ch;
+        rh -= ch;
+        break;
+      }
+      case 2: {
+        const cw = rw / PHI;
+        d += ` A ${cw} ${rh} 0 0 1 ${x + rw - cw} ${y + rh}`;
+        rw -= cw;
+        break;
+      }
+      case 3: {
+        const ch = rh / PHI;
+        d += ` A ${rw} ${ch} 0 0 1 ${x} ${y + rh - ch}`;
+        rh -= ch;
+        break;
+      }
+    }
+  }
+  return d;
+}
+
+// Axis mirroring for spiral orientation 0–3
+export function spiralMirror(rotation: number): { sx: number; sy: number } {
+  const r = ((rotation % 4) + 4) % 4;
+  return {
+    sx: r === 1 || r === 2 ? -1 : 1,
+    sy: r === 2 || r === 3 ? -1 : 1,
+  };
+}
+
+// SVG transform mirroring the spiral within a w×h frame
+export function spiralTransform(rotation: number, w: number, h: number): string {
+  const { sx, sy } = spiralMirror(rotation);
+  return `translate(${sx < 0 ? w : 0} ${sy < 0 ? h : 0}) scale(${sx} ${sy})`;
+}
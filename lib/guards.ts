@@ -0,0 +1,3 @@
+// Narrowing for parsed JSON and other untrusted values
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,93 @@
+import type { EditorStroke, EditorSwatch } from '@/lib/sessions';
+import type { ValueStudy } from '@/lib/value-study';
+import type { CanvasAspect } from '@/lib/aspect';
+import type { CompareSettings } from '@/lib/compare';
+import { isRecord } from '@/lib/guards';
+
+// The undoable part of the editor; view settings (tool, grid overlay, zoom) stay out of history
+export type EditorDoc = {
+  currentUri: string;
+  strokes: EditorStroke[];
+  // Only crops record swatches, since they move the sampled positions
+  swatches: EditorSwatch[];
+  noteText: string;
+  valueStudy: ValueStudy;
+  aspect: CanvasAspect;
+  compare: CompareSettings | null;
+};
+
+export type EditorCommand =
+  // Strokes are the most frequent command, so they store only the added stroke
+  | { type: 'addStroke'; stroke: EditorStroke; at: number }
+  | {
+      type: 'set';
+      label: string;
+      before: Partial<EditorDoc>;
+      after: Partial<EditorDoc>;
+      at: number;
+      // Consecutive commands sharing a key within COALESCE_MS merge into one undo step
+      coalesce?: string;
+    };
+
+export type EditorHistory = {
+  past: EditorCommand[];
+  future: EditorCommand[];
+};
+
+export const EMPTY_HISTORY: EditorHistory = { past: [], future: [] };
+export const MAX_HISTORY = 100;
+const COALESCE_MS = 1000;
+
+export function pushCommand(history: EditorHistory, cmd: EditorCommand): EditorHistory {
+  const last = history.past[history.past.length - 1];
+  if (
+    cmd.type === 'set' &&
+    cmd.coalesce &&
+    last?.type === 'set' &&
+    last.coalesce === cmd.coalesce &&
+    cmd.at - last.at < COALESCE_MS
+  ) {
+    const merged: EditorCommand = { ...cmd, before: { ...cmd.before, ...last.before } };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  const past = [...history.past, cmd];
+  return { past: past.slice(Math.max(0, past.length - MAX_HISTORY)), future: [] };
+}
+
+export function stepBack(history: EditorHistory): EditorHistory {
+  const cmd = history.past[history.past.length - 1];
+  if (!cmd) return history;
+  return { past: history.past.slice(0, -1), future: [...history.future, cmd] };
+}
+
+export function stepForward(history: EditorHistory): EditorHistory {
+  const cmd = history.future[history.future.length - 1];
+  if (!cmd) return history;
+  return { past: [...history.past, cmd], future: history.future.slice(0, -1) };
+}
+
+export function commandLabel(cmd: EditorCommand) {
+  return cmd.type === 'addStroke' ? 'Stroke' : cmd.label;
+}
+
+const isStroke = (s: unknown): s is EditorStroke =>
+  isRecord(s) && typeof s.pathSvg === 'string' && typeof s.color === 'string' && typeof s.width === 'number';
+
+function isEditorCommand(c: unknown): c is EditorCommand {
+  if (!isRecord(c) || typeof c.at !== 'number') return false;
+  if (c.type === 'addStroke') return isStroke(c.stroke);
+  return c.type === 'set'
+    && typeof c.label === 'string'
+    && isRecord(c.before)
+    && isRecord(c.after)
+    && (c.coalesce === undefined || typeof c.coalesce === 'string');
+}
+
+// Restore a history loaded from storage, dropping anything malformed
+export function parseHistory(value: unknown): EditorHistory {
+  const h = isRecord(value) ? value : {};
+  return {
+    past: Array.isArray(h.past) ? h.past.filter(isEditorCommand) : [],
+    future: Array.isArray(h.future) ? h.future.filter(isEditorCommand) : [],
+  };
+}
@@ -0,0 +1,4 @@
+// Skia is linked natively on iOS and Android; the web build loads CanvasKit (see load-skia.web.ts)
+export function loadSkia(): Promise<void> {
+  return Promise.resolve();
+}
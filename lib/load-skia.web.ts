@@ -0,0 +1,15 @@
+import { LoadSkiaWeb } from '@shopify/react-native-skia/lib/module/web';
+
+let loading: Promise<void> | null = null;
+
+// canvaskit.wasm is copied into public/ on install (setup-skia-web) and served by the app itself
+export function loadSkia(): Promise<void> {
+  if (!loading) {
+    loading = LoadSkiaWeb({ locateFile: (file) => `/${file}` }).catch((e) => {
+      // Allow a retry after a failed download
+      loading = null;
+      throw e;
+    });
+  }
+  return loading;
+}
@@ -0,0 +1,154 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+import { referencedFiles } from '@/lib/sessions';
+
+// Files this fresh may belong to an export being shared or an image the editor just produced
+const GRACE_MS = 10 * 60 * 1000;
+
+// App-owned folders under documentDirectory
+const DOCUMENT_ROOTS = ['sessions/', 'previews/', 'draft/'];
+
+// What the app and its Expo modules write to the cache; anything else there is left alone
+const CACHE_ENTRIES = [
+  /^ImageManipulator$/,
+  /^ImagePicker$/,
+  /^DocumentPicker$/,
+  /^Print$/,
+  /^import-/,
+  /^chromaframe-/,
+  /\.chromaframe$/,
+];
+
+export type CleanupResult = {
+  files: number;
+  bytes: number;
+};
+
+export type StorageCategory = 'sessions' | 'previews' | 'draft' | 'cache' | 'database' | 'browser';
+
+export type StorageUsage = {
+  items: { id: StorageCategory; label: string; bytes: number }[];
+  total: number;
+};
+
+/**
+ * References are matched on the last path segments: iOS moves the app container on updates,
+ * so a URI saved by an older install may name the same file under a different absolute path.
+ */
+function pathKey(uri: string) {
+  let path = uri.split(/[?#]/)[0];
+  try {
+    path = decodeURIComponent(path);
+  } catch {
+    // keep malformed escapes as they are
+  }
+  return path.split('/').slice(-3).join('/');
+}
+
+async function info(uri: string) {
+  try {
+    return await FileSystem.getInfoAsync(uri);
+  } catch {
+    return null;
+  }
+}
+
+async function cacheEntries(): Promise<string[]> {
+  const dir = FileSystem.cacheDirectory;
+  if (!dir) return [];
+  try {
+    const names = await FileSystem.readDirectoryAsync(dir);
+    return names.filter((name) => CACHE_ENTRIES.some((re) => re.test(name))).map((name) => dir + name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Deletes unreferenced files under `uri`, then the folder itself if it ends up empty and isn't a
+ * root. Returns whether `uri` is gone.
+ */
+async function sweep(uri: string, keep: Set<string>, now: number, result: CleanupResult, root = false) {
+  const entry = await info(uri);
+  if (!entry?.exists) return true;
+  if (!entry.isDirectory) {
+    if (keep.has(pathKey(uri)) || now - entry.modificationTime * 1000 < GRACE_MS) return false;
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+    result.files += 1;
+    result.bytes += entry.size ?? 0;
+    return true;
+  }
+  const dir = uri.endsWith('/') ? uri : `${uri}/`;
+  let remaining = 0;
+  for (const name of await FileSystem.readDirectoryAsync(dir).catch(() => [] as string[])) {
+    if (!(await sweep(dir + name, keep, now, result))) remaining += 1;
+  }
+  if (root || remaining > 0) return false;
+  await FileSystem.deleteAsync(dir, { idempotent: true });
+  return true;
+}
+
+/**
+ * Removes previews, session images, draft leftovers and cached picker, crop, print, export and
+ * import files that no session, trashed session or draft refers to.
+ */
+export async function collectGarbage(): Promise<CleanupResult> {
+  const result: CleanupResult = { files: 0, bytes: 0 };
+  if (Platform.OS === 'web') return result;
+  const keep = new Set((await referencedFiles()).map(pathKey));
+  const now = Date.now();
+  for (const root of DOCUMENT_ROOTS) {
+    await sweep(FileSystem.documentDirectory + root, keep, now, result, true);
+  }
+  for (const entry of await cacheEntries()) {
+    await sweep(entry, keep, now, result);
+  }
+  return result;
+}
+
+async function sizeOf(uri: string): Promise<number> {
+  const entry = await info(uri);
+  if (!entry?.exists) return 0;
+  if (!entry.isDirectory) return entry.size ?? 0;
+  const dir = uri.endsWith('/') ? uri : `${uri}/`;
+  let total = 0;
+  for (const name of await FileSystem.readDirectoryAsync(dir).catch(() => [] as string[])) {
+    total += await sizeOf(dir + name);
+  }
+  return total;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  if (Platform.OS === 'web') {
+    // The browser only reports a total for the origin
+    const estimate = await navigator.storage?.estimate?.().catch(() => null);
+    const bytes = estimate?.usage ?? 0;
+    return { items: [{ id: 'browser', label: 'Browser storage', bytes }], total: bytes };
+  }
+  const doc = FileSystem.documentDirectory;
+  let cache = 0;
+  for (const entry of await cacheEntries()) {
+    cache += await sizeOf(entry);
+  }
+  const items: StorageUsage['items'] = [
+    { id: 'sessions', label: 'Session images', bytes: await sizeOf(`${doc}sessions/`) },
+    { id: 'previews', label: 'Previews', bytes: await sizeOf(`${doc}previews/`) },
+    { id: 'draft', label: 'Unsaved draft', bytes: await sizeOf(`${doc}draft/`) },
+    { id: 'database', label: 'Database', bytes: await sizeOf(`${doc}SQLite/`) },
+    { id: 'cache', label: 'Cached files', bytes: cache },
+  ];
+  return { items, total: items.reduce((sum, item) => sum + item.bytes, 0) };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
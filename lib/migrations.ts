@@ -0,0 +1,142 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import type { EditorState, EditorStroke, EditorSwatch } from '@/lib/sessions';
+import { isRecord } from '@/lib/guards';
+
+type Migration = (db: SQLiteDatabase) => Promise<void>;
+
+/**
+ * Schema steps in order; step i brings the database from user_version i to i + 1. Append new
+ * steps at the end and never edit one that has shipped.
+ */
+const MIGRATIONS: Migration[] = [
+  // 1: the original table; IF NOT EXISTS adopts installs that predate versioning
+  async (db) => {
+    await db.execAsync(`CREATE TABLE IF NOT EXISTS sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      preview_uri TEXT,
+      state_json TEXT NOT NULL
+    )`);
+  },
+  // 2: autosave slot, a single row
+  async (db) => {
+    await db.execAsync(`CREATE TABLE IF NOT EXISTS drafts (
+      id INTEGER PRIMARY KEY CHECK (id = 1),
+      session_id INTEGER,
+      state_json TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )`);
+  },
+  // 3: last-edited time, backfilled from created_at
+  async (db) => {
+    await db.execAsync(`ALTER TABLE sessions ADD COLUMN updated_at INTEGER NOT NULL DEFAULT 0;
+      UPDATE sessions SET updated_at = created_at;`);
+  },
+  // 4: indexes for the home screen sort orders
+  async (db) => {
+    await db.execAsync(`CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions (created_at);
+      CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions (updated_at);
+      CREATE INDEX IF NOT EXISTS idx_sessions_name ON sessions (name COLLATE NOCASE);`);
+  },
+  // 5: collections (one per session) and free-form tags (many per session)
+  async (db) => {
+    await db.execAsync(`CREATE TABLE IF NOT EXISTS collections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      ALTER TABLE sessions ADD COLUMN collection_id INTEGER REFERENCES collections (id);
+      CREATE INDEX IF NOT EXISTS idx_sessions_collection_id ON sessions (collection_id);
+      CREATE TABLE IF NOT EXISTS session_tags (
+        session_id INTEGER NOT NULL REFERENCES sessions (id),
+        tag TEXT NOT NULL COLLATE NOCASE,
+        PRIMARY KEY (session_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS idx_session_tags_tag ON session_tags (tag);`);
+  },
+  // 6: soft delete; trashed rows keep their data until purged
+  async (db) => {
+    await db.execAsync(`ALTER TABLE sessions ADD COLUMN deleted_at INTEGER;
+      CREATE INDEX IF NOT EXISTS idx_sessions_deleted_at ON sessions (deleted_at);`);
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export async function migrateDb(db: SQLiteDatabase) {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  const from = row?.user_version ?? 0;
+  if (from > SCHEMA_VERSION) {
+    throw new Error(`Database version ${from} is newer than this app supports (${SCHEMA_VERSION}).`);
+  }
+  for (let version = from; version < SCHEMA_VERSION; version++) {
+    // Each step commits together with its version bump, so a failed step is retried next launch
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      await MIGRATIONS[version](txn);
+      await txn.execAsync(`PRAGMA user_version = ${version + 1}`);
+    });
+  }
+}
+
+// Stored EditorState JSON by format version; the newest is the current EditorState. States saved
+// before versioning have no `version`, count as 0 and are trusted for nothing.
+type StateV0 = Record<string, unknown>;
+type StateV1 = EditorState;
+
+type StateUpgrade<From, To> = (state: From) => To;
+
+/**
+ * EditorState JSON upgrades; step i turns a version i state into version i + 1. Append new steps
+ * and extend the tuple type, so each step's input is checked against the previous step's output.
+ */
+const STATE_UPGRADES: readonly [StateUpgrade<StateV0, StateV1>] = [
+  // 1: fill fields that early sessions were saved without
+  (state) => {
+    const strokes = Array.isArray(state.strokes) ? (state.strokes as EditorStroke[]) : [];
+    return {
+      // Optional fields are passed through and checked where they are read
+      ...(state as Partial<EditorState>),
+      originalUri: typeof state.originalUri === 'string' ? state.originalUri : '',
+      currentUri: typeof state.currentUri === 'string' ? state.currentUri : '',
+      noteText: typeof state.noteText === 'string' ? state.noteText : '',
+      strokes,
+      canvas: isRecord(state.canvas) ? (state.canvas as EditorState['canvas']) : { width: 0, height: 0 },
+      swatches: Array.isArray(state.swatches) ? (state.swatches as EditorSwatch[]) : [],
+      // Nothing to rescale, so an empty drawing is already in image units
+      strokeUnits: state.strokeUnits === 'canvas' || state.strokeUnits === 'image'
+        ? state.strokeUnits
+        : strokes.length ? 'canvas' : 'image',
+    };
+  },
+];
+
+export const STATE_VERSION = STATE_UPGRADES.length;
+
+// Required fields of the current shape; optional ones are checked where they are read
+function isEditorState(value: unknown): value is EditorState {
+  return isRecord(value)
+    && typeof value.originalUri === 'string'
+    && typeof value.currentUri === 'string'
+    && typeof value.noteText === 'string'
+    && Array.isArray(value.strokes)
+    && isRecord(value.canvas);
+}
+
+export function upgradeState(raw: unknown): EditorState & { version: number } {
+  const stored = isRecord(raw) ? raw : {};
+  const from = typeof stored.version === 'number' ? stored.version : 0;
+  if (from > STATE_VERSION) {
+    throw new Error(`Session was saved by a newer version of the app (${from}).`);
+  }
+  let state: unknown = stored;
+  for (let version = from; version < STATE_VERSION; version++) {
+    // The tuple type has already checked each step against its neighbours
+    state = (STATE_UPGRADES[version] as StateUpgrade<unknown, unknown>)(state);
+  }
+  if (!isEditorState(state)) {
+    throw new Error('The session data is damaged.');
+  }
+  return { ...state, version: STATE_VERSION };
+}
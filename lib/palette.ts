@@ -0,0 +1,101 @@
+import { rgbToHex, relativeLuminance, type RGB } from '@/lib/color';
+
+export type PaletteColor = {
+  hex: string;
+  // Fraction of sampled pixels (0–1) assigned to this color
+  share: number;
+};
+
+export const PALETTE_SIZES = [5, 8, 12];
+export const DEFAULT_PALETTE_SIZE = 8;
+
+const MAX_ITERATIONS = 16;
+
+function dist2(a: RGB, b: RGB) {
+  const dr = a.r - b.r;
+  const dg = a.g - b.g;
+  const db = a.b - b.b;
+  return dr * dr + dg * dg + db * db;
+}
+
+// A large flat area can put several quantiles on one color; seed the nearest other color instead
+function unusedNear(sorted: RGB[], idx: number, seeds: RGB[]): number {
+  const unused = (i: number) => !seeds.some((c) => dist2(c, sorted[i]) === 0);
+  for (let step = 0; step < sorted.length; step++) {
+    if (idx - step >= 0 && unused(idx - step)) return idx - step;
+    if (idx + step < sorted.length && unused(idx + step)) return idx + step;
+  }
+  return idx;
+}
+
+// Reads opaque pixels out of an RGBA buffer
+export function pixelsFromRgba(data: ArrayLike<number>): RGB[] {
+  const out: RGB[] = [];
+  for (let i = 0; i + 3 < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    out.push({ r: data[i], g: data[i + 1], b: data[i + 2] });
+  }
+  return out;
+}
+
+/**
+ * K-means quantization of a pixel list into at most `k` colors, ordered by area.
+ * Centroids are seeded from luminance quantiles so results are stable between runs.
+ */
+export function extractPalette(pixels: RGB[], k: number): PaletteColor[] {
+  if (pixels.length === 0 || k <= 0) return [];
+  const sorted = [...pixels].sort((a, b) => relativeLuminance(a) - relativeLuminance(b));
+  const count = Math.min(k, pixels.length);
+  let centroids: RGB[] = [];
+  for (let i = 0; i < count; i++) {
+    const idx = Math.min(sorted.length - 1, Math.floor(((i + 0.5) / count) * sorted.length));
+    centroids.push({ ...sorted[unusedNear(sorted, idx, centroids)] });
+  }
+  const assignment = new Int32Array(pixels.length);
+
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    let changed = false;
+    for (let i = 0; i < pixels.length; i++) {
+      let best = 0;
+      let bestD = Infinity;
+      for (let c = 0; c < centroids.length; c++) {
+        const d = dist2(pixels[i], centroids[c]);
+        if (d < bestD) {
+          bestD = d;
+          best = c;
+        }
+      }
+      if (assignment[i] !== best) {
+        assignment[i] = best;
+        changed = true;
+      }
+    }
+    const sums = centroids.map(() => ({ r: 0, g: 0, b: 0, n: 0 }));
+    for (let i = 0; i < pixels.length; i++) {
+      const s = sums[assignment[i]];
+      s.r += pixels[i].r;
+      s.g += pixels[i].g;
+      s.b += pixels[i].b;
+      s.n++;
+    }
+    centroids = centroids.map((c, idx) => {
+      const s = sums[idx];
+      return s.n ? { r: s.r / s.n, g: s.g / s.n, b: s.b / s.n } : c;
+    });
+    if (!changed && iter > 0) break;
+  }
+
+  const counts = new Array(centroids.length).fill(0);
+  for (let i = 0; i < pixels.length; i++) counts[assignment[i]]++;
+
+  // Merge centroids that round to the same hex and drop empty clusters
+  const byHex = new Map<string, number>();
+  centroids.forEach((c, idx) => {
+    if (!counts[idx]) return;
+    const hex = rgbToHex(c);
+    byHex.set(hex, (byHex.get(hex) ?? 0) + counts[idx]);
+  });
+  return Array.from(byHex.entries())
+    .map(([hex, n]) => ({ hex, share: n / pixels.length }))
+    .sort((a, b) => b.share - a.share);
+}
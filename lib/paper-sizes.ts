@@ -0,0 +1,10 @@
+// Kept apart from reference-sheet.ts so screens can list sizes without loading Skia
+export type PaperSize = 'A4' | 'A3' | 'Letter' | 'Tabloid';
+
+// Page size in PDF points (1/72 in), portrait
+export const PAPER_SIZES: { id: PaperSize; label: string; width: number; height: number }[] = [
+  { id: 'A4', label: 'A4', width: 595, height: 842 },
+  { id: 'A3', label: 'A3', width: 842, height: 1191 },
+  { id: 'Letter', label: 'Letter', width: 612, height: 792 },
+  { id: 'Tabloid', label: 'Tabloid', width: 792, height: 1224 },
+];
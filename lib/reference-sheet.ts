@@ -0,0 +1,122 @@
+import { Skia } from '@shopify/react-native-skia';
+import * as Print from 'expo-print';
+
+import { getSession, type EditorState } from '@/lib/sessions';
+import { renderComposite } from '@/lib/render';
+import { encodeImage } from '@/lib/export';
+import { migrateLegacyStrokes } from '@/lib/strokes';
+import { DEFAULT_GRID } from '@/lib/grids';
+import { readColor, hexToRgb, formatRgb } from '@/lib/color';
+import { PAPER_SIZES, type PaperSize } from '@/lib/paper-sizes';
+
+// Long edge of the rendered images; enough for print at these page sizes without bloating the PDF
+const SHEET_IMAGE_SIZE = 1600;
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Extracted palette wins; otherwise pinned swatches, then the rest of the sampled history
+function sheetColors(state: EditorState): { hex: string; share?: number }[] {
+  if (state.palette?.length) return state.palette;
+  const swatches = state.swatches ?? [];
+  const ordered = [...swatches.filter((s) => s.pinned), ...swatches.filter((s) => !s.pinned)];
+  const seen = new Set<string>();
+  return ordered
+    .filter((s) => (seen.has(s.hex) ? false : (seen.add(s.hex), true)))
+    .map((s) => ({ hex: s.hex }));
+}
+
+function sheetHtml(opts: {
+  name: string;
+  colorImage: string;
+  valueImage: string;
+  valueLabel: string;
+  landscape: boolean;
+  colors: { hex: string; share?: number }[];
+  notes: string;
+}) {
+  const swatches = opts.colors
+    .map((c) => {
+      const rgb = hexToRgb(c.hex);
+      const reading = rgb ? readColor(rgb) : null;
+      const detail = reading ? `RGB ${formatRgb(reading.rgb)} · V ${reading.value}` : '';
+      const share = typeof c.share === 'number' ? ` · ${Math.round(c.share * 100)}%` : '';
+      return `<div class="swatch"><div class="chip" style="background:${escapeHtml(c.hex)}"></div>
+        <div class="hex">${escapeHtml(c.hex.toUpperCase())}</div><div class="meta">${detail}${share}</div></div>`;
+    })
+    .join('');
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"/>
+<style>
+  @page { margin: 28pt; }
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #111; margin: 0; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  .date { font-size: 9pt; color: #666; margin-bottom: 12pt; }
+  .images { display: flex; flex-direction: ${opts.landscape ? 'column' : 'row'}; gap: 12pt; }
+  .images figure { flex: 1; margin: 0; }
+  .images img { width: 100%; display: block; border: 0.5pt solid #ccc; }
+  figcaption { font-size: 9pt; color: #666; margin-top: 4pt; }
+  h2 { font-size: 11pt; margin: 16pt 0 6pt; text-transform: uppercase; letter-spacing: 0.5pt; }
+  .palette { display: flex; flex-wrap: wrap; gap: 8pt; }
+  .swatch { width: 72pt; }
+  .chip { height: 36pt; border-radius: 4pt; border: 0.5pt solid #ccc; }
+  .hex { font-size: 9pt; font-weight: 600; margin-top: 3pt; }
+  .meta { font-size: 7pt; color: #666; }
+  .notes { font-size: 10pt; white-space: pre-wrap; border: 0.5pt solid #ddd; border-radius: 4pt; padding: 8pt; }
+</style></head>
+<body>
+  <h1>${escapeHtml(opts.name)}</h1>
+  <div class="date">${escapeHtml(new Date().toLocaleDateString())}</div>
+  <div class="images">
+    <figure><img src="data:image/jpeg;base64,${opts.colorImage}"/><figcaption>Composition</figcaption></figure>
+    <figure><img src="data:image/jpeg;base64,${opts.valueImage}"/><figcaption>${escapeHtml(opts.valueLabel)}</figcaption></figure>
+  </div>
+  ${opts.colors.length ? `<h2>Palette</h2><div class="palette">${swatches}</div>` : ''}
+  ${opts.notes.trim() ? `<h2>Notes</h2><div class="notes">${escapeHtml(opts.notes)}</div>` : ''}
+</body></html>`;
+}
+
+/**
+ * Lays out the cropped image with its grid, the value study version, the palette and the notes
+ * on one page and returns the PDF file uri.
+ */
+export async function buildReferenceSheet(name: string, state: EditorState, paper: PaperSize = 'A4') {
+  const uri = state.currentUri || state.originalUri;
+  const data = await Skia.Data.fromURI(uri);
+  const image = Skia.Image.MakeImageFromEncoded(data);
+  if (!image) throw new Error('Could not load the session image');
+  const size = { width: image.width(), height: image.height() };
+  const normalized = migrateLegacyStrokes(state, size);
+
+  const colorImage = renderComposite(image, {
+    size: SHEET_IMAGE_SIZE,
+    strokes: normalized.strokes,
+    // The sheet always shows the composition grid, even if it was hidden while drawing
+    grid: { ...DEFAULT_GRID, ...state.grid, overlay: true },
+  });
+  const study = state.valueStudy && state.valueStudy.mode !== 'color'
+    ? state.valueStudy
+    : { mode: 'gray' as const, levels: 0 };
+  const valueImage = renderComposite(image, { size: SHEET_IMAGE_SIZE, strokes: [], valueStudy: study });
+  if (!colorImage || !valueImage) throw new Error('Could not render the sheet images');
+
+  const page = PAPER_SIZES.find((p) => p.id === paper) ?? PAPER_SIZES[0];
+  const html = sheetHtml({
+    name,
+    colorImage: encodeImage(colorImage, 'jpeg', 90),
+    valueImage: encodeImage(valueImage, 'jpeg', 90),
+    valueLabel: study.mode === 'posterize' ? `Value study · ${study.levels} values` : 'Value study',
+    landscape: size.width > size.height,
+    colors: sheetColors(state),
+    notes: state.noteText ?? '',
+  });
+  const { uri: pdfUri } = await Print.printToFileAsync({ html, width: page.width, height: page.height });
+  return pdfUri;
+}
+
+export async function buildSessionReferenceSheet(id: number, paper: PaperSize = 'A4') {
+  const row = await getSession(id);
+  if (!row) throw new Error('Session not found');
+  const state: EditorState = JSON.parse(row.state_json);
+  return buildReferenceSheet(row.name, state, paper);
+}
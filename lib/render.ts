@@ -0,0 +1,102 @@
+import { FilterMode, MipmapMode, PaintStyle, Skia, TileMode, type SkImage } from '@shopify/react-native-skia';
+
+import type { EditorStroke } from '@/lib/sessions';
+import { VALUE_STUDY_SKSL, type ValueStudy } from '@/lib/value-study';
+import { goldenSpiralPath, gridLines, spiralMirror, type GridConfig } from '@/lib/grids';
+import type { Size } from '@/lib/geometry';
+
+export type ExportSize = 'original' | number;
+
+export const EXPORT_SIZE_PRESETS: { label: string; value: ExportSize }[] = [
+  { label: 'Original', value: 'original' },
+  { label: '2048 px', value: 2048 },
+  { label: '4096 px', value: 4096 },
+];
+
+export type RenderOptions = {
+  // Long edge of the output in pixels, or the working image's own resolution
+  size: ExportSize;
+  strokes: EditorStroke[];
+  valueStudy?: ValueStudy;
+  // Drawn only when the grid is enabled as an overlay
+  grid?: GridConfig | null;
+};
+
+export function outputSize(image: Size, size: ExportSize): Size {
+  if (size === 'original') return { width: image.width, height: image.height };
+  const k = size / Math.max(image.width, image.height);
+  return { width: Math.round(image.width * k), height: Math.round(image.height * k) };
+}
+
+function spiralMatrix(rotation: number, w: number, h: number) {
+  const { sx, sy } = spiralMirror(rotation);
+  return [sx, 0, sx < 0 ? w : 0, 0, sy, sy < 0 ? h : 0, 0, 0, 1];
+}
+
+/**
+ * Composites the working image at full (or chosen) resolution with strokes, the value study
+ * filter and the grid overlay on a CPU surface, independent of the on-screen canvas size.
+ */
+export function renderComposite(image: SkImage, opts: RenderOptions): SkImage | null {
+  const src = { width: image.width(), height: image.height() };
+  const out = outputSize(src, opts.size);
+  const surface = Skia.Surface.Make(out.width, out.height);
+  if (!surface) return null;
+  const canvas = surface.getCanvas();
+  const k = out.width / src.width;
+
+  const imagePaint = Skia.Paint();
+  imagePaint.setAntiAlias(true);
+  const imageShader = image.makeShaderOptions(
+    TileMode.Clamp,
+    TileMode.Clamp,
+    FilterMode.Linear,
+    MipmapMode.Linear,
+    Skia.Matrix().scale(k, k)
+  );
+  const study = opts.valueStudy;
+  const effect = study && study.mode !== 'color' ? Skia.RuntimeEffect.Make(VALUE_STUDY_SKSL) : null;
+  if (effect && study) {
+    const levels = study.mode === 'posterize' ? study.levels : 0;
+    imagePaint.setShader(effect.makeShaderWithChildren([levels], [imageShader]));
+  } else {
+    imagePaint.setShader(imageShader);
+  }
+  canvas.drawRect(Skia.XYWHRect(0, 0, out.width, out.height), imagePaint);
+
+  // Strokes are stored in image-width units, so the output width is their scale
+  for (const s of opts.strokes) {
+    const path = Skia.Path.MakeFromSVGString(s.pathSvg);
+    if (!path) continue;
+    path.transform([out.width, 0, 0, 0, out.width, 0, 0, 0, 1]);
+    const paint = Skia.Paint();
+    paint.setAntiAlias(true);
+    paint.setStyle(PaintStyle.Stroke);
+    paint.setStrokeWidth(s.width * out.width);
+    paint.setColor(Skia.Color(s.color));
+    canvas.drawPath(path, paint);
+  }
+
+  const grid = opts.grid;
+  if (grid?.overlay) {
+    const paint = Skia.Paint();
+    paint.setAntiAlias(true);
+    paint.setStyle(PaintStyle.Stroke);
+    paint.setStrokeWidth(Math.max(1, out.width / 600));
+    paint.setColor(Skia.Color(grid.color));
+    paint.setAlphaf(grid.opacity);
+    for (const l of gridLines(grid, out.width, out.height)) {
+      canvas.drawLine(l.x1, l.y1, l.x2, l.y2, paint);
+    }
+    if (grid.kind === 'spiral') {
+      const spiral = Skia.Path.MakeFromSVGString(goldenSpiralPath(out.width, out.height));
+      if (spiral) {
+        spiral.transform(spiralMatrix(grid.spiralRotation, out.width, out.height));
+        canvas.drawPath(spiral, paint);
+      }
+    }
+  }
+
+  surface.flush();
+  return surface.makeImageSnapshot();
+}
@@ -1,54 +1,64 @@
 import { Platform } from 'react-native';
-import { openDatabaseAsync, type SQLiteDatabase } from 'expo-sqlite';
 import * as FileSystem from 'expo-file-system';
+import type { ValueStudy } from '@/lib/value-study';
+import type { PaletteColor } from '@/lib/palette';
+import type { GridConfig } from '@/lib/grids';
+import type { CanvasAspect } from '@/lib/aspect';
+import type { CompareSettings } from '@/lib/compare';
+import type { EditorHistory } from '@/lib/history';
+import { STATE_VERSION, upgradeState } from '@/lib/migrations';
+import {
+  getSessionStore,
+  type CollectionRow,
+  type DraftRow,
+  type SessionQuery,
+  type SessionRow,
+  type SessionSort,
+} from '@/lib/storage';
+
+export type { CollectionRow, DraftRow, SessionQuery, SessionRow, SessionSort };
 
 export type EditorStroke = {
+  // Path and width in image-width units (see imageUnitsToView); legacy sessions used canvas pixels
   pathSvg: string;
   color: string;
   width: number;
 };
 
+export type EditorSwatch = {
+  id: string;
+  hex: string;
+  // Sample location in image-width units (see imageUnitsToView); canvas pixels when swatchUnits is missing
+  x: number;
+  y: number;
+  pinned: boolean;
+  createdAt: number;
+};
+
 export type EditorState = {
   originalUri: string;
   currentUri: string;
   noteText: string;
   strokes: EditorStroke[];
-  canvas: { width: number; height: number };
-};
-
-export type SessionRow = {
-  id: number;
-  name: string;
-  created_at: number;
-  preview_uri: string | null;
-  state_json: string;
+  // Canvas size the strokes were drawn at, plus the crop aspect chosen for it
+  canvas: { width: number; height: number; aspect?: CanvasAspect };
+  // Optional for sessions saved before the eyedropper existed
+  swatches?: EditorSwatch[];
+  valueStudy?: ValueStudy;
+  palette?: PaletteColor[];
+  grid?: GridConfig;
+  // Second photo shown by the compare tool
+  compare?: CompareSettings;
+  // Undo/redo stacks so history survives reopening the session
+  history?: EditorHistory;
+  // Coordinate space of strokes; missing means canvas pixels from before strokes were normalized
+  strokeUnits?: 'canvas' | 'image';
+  // Same for swatch positions, which stayed in canvas pixels for longer than strokes
+  swatchUnits?: 'canvas' | 'image';
+  // JSON format version (see upgradeState); missing on sessions saved before versioning
+  version?: number;
 };
 
-const DB_NAME = 'chromaframe.db';
-const TABLE_SQL = `CREATE TABLE IF NOT EXISTS sessions (
-  id INTEGER PRIMARY KEY AUTOINCREMENT,
-  name TEXT NOT NULL,
-  created_at INTEGER NOT NULL,
-  preview_uri TEXT,
-  state_json TEXT NOT NULL
-)`;
-
-let dbPromise: Promise<SQLiteDatabase> | null = null;
-
-async function getDb(): Promise<SQLiteDatabase> {
-  if (Platform.OS === 'web') {
-    throw new Error('SQLite is not supported on web in this app.');
-  }
-  if (!dbPromise) {
-    dbPromise = (async () => {
-      const database = await openDatabaseAsync(DB_NAME);
-      await database.execAsync(TABLE_SQL);
-      return database;
-    })();
-  }
-  return dbPromise;
-}
-
 export async function ensurePreviewDir() {
   const dir = FileSystem.documentDirectory + 'previews/';
   const info = await FileSystem.getInfoAsync(dir);
@@ -58,111 +68,452 @@ export async function ensurePreviewDir() {
   return dir;
 }
 
-export async function saveSession(name: string, state: EditorState, previewUri?: string | null) {
-  if (Platform.OS === 'web') {
-    throw new Error('Saving sessions is not supported on web.');
+// Each session owns copies of its images so OS cache purges can't break it
+export function sessionDir(id: number) {
+  return `${FileSystem.documentDirectory}sessions/${id}/`;
+}
+
+async function fileExists(uri: string) {
+  if (!uri) return false;
+  try {
+    return (await FileSystem.getInfoAsync(uri)).exists;
+  } catch {
+    return false;
   }
-  const database = await getDb();
-  const createdAt = Date.now();
-  const stateJson = JSON.stringify(state);
-  const res = await database.runAsync(
-    'INSERT INTO sessions (name, created_at, preview_uri, state_json) VALUES (?, ?, ?, ?)',
-    [name, createdAt, previewUri ?? null, stateJson]
-  );
-  // runAsync returns an object with lastInsertRowId on native
-  // @ts-ignore - type may vary across platforms
-  return Number(res?.lastInsertRowId ?? 0);
 }
 
-export async function listSessions(): Promise<SessionRow[]> {
-  if (Platform.OS === 'web') {
-    return [];
+// Picker and manipulator files have unique names, so the source name doubles as a stable asset key
+function assetName(uri: string) {
+  const last = uri.split(/[?#]/)[0].split('/').pop() ?? '';
+  const name = decodeURIComponent(last).replace(/[^\w.\-]+/g, '_') || `image-${Date.now()}`;
+  return /\.[a-z0-9]+$/i.test(name) ? name : `${name}.jpg`;
+}
+
+// Every image URI a state refers to, including working images and compare photos that undo steps return to
+function stateUris(state: EditorState): string[] {
+  const uris = [state.originalUri, state.currentUri];
+  if (state.compare) uris.push(state.compare.uri);
+  for (const cmd of [...(state.history?.past ?? []), ...(state.history?.future ?? [])]) {
+    if (cmd.type !== 'set') continue;
+    for (const doc of [cmd.before, cmd.after]) {
+      if (doc.currentUri) uris.push(doc.currentUri);
+      if (doc.compare) uris.push(doc.compare.uri);
+    }
   }
-  const database = await getDb();
-  const rows = await database.getAllAsync<SessionRow>(
-    'SELECT id, name, created_at, preview_uri, state_json FROM sessions ORDER BY created_at DESC'
-  );
-  return rows ?? [];
+  return [...new Set(uris.filter(Boolean))];
+}
+
+function mapStateUris(state: EditorState, map: (uri: string) => string): EditorState {
+  const mapCompare = (compare: CompareSettings) => ({ ...compare, uri: map(compare.uri) });
+  const mapDoc = <T extends { currentUri?: string; compare?: CompareSettings | null }>(doc: T): T => ({
+    ...doc,
+    ...(doc.currentUri ? { currentUri: map(doc.currentUri) } : {}),
+    ...(doc.compare ? { compare: mapCompare(doc.compare) } : {}),
+  });
+  const mapCommands = (list: EditorHistory['past']) =>
+    list.map((cmd) => (cmd.type === 'set' ? { ...cmd, before: mapDoc(cmd.before), after: mapDoc(cmd.after) } : cmd));
+  return {
+    ...state,
+    originalUri: map(state.originalUri),
+    currentUri: map(state.currentUri),
+    compare: state.compare && mapCompare(state.compare),
+    history: state.history && { past: mapCommands(state.history.past), future: mapCommands(state.history.future) },
+  };
+}
+
+// blob: URLs die with the page, so web sessions keep their images inline as data URIs
+async function toDataUri(uri: string): Promise<string> {
+  if (!uri.startsWith('blob:')) return uri;
+  const blob = await (await fetch(uri)).blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function adoptWebAssets(state: EditorState): Promise<EditorState> {
+  const mapping = new Map<string, string>();
+  for (const uri of stateUris(state)) {
+    try {
+      mapping.set(uri, await toDataUri(uri));
+    } catch (e) {
+      console.warn('Failed to inline image', e);
+    }
+  }
+  return mapStateUris(state, (uri) => mapping.get(uri) ?? uri);
+}
+
+/**
+ * Copies the state's images into `dir`, rewrites the state to point at the copies and
+ * removes files the state no longer references. Missing sources are left as-is.
+ */
+async function adoptAssets(dir: string, state: EditorState): Promise<EditorState> {
+  if (Platform.OS === 'web') return adoptWebAssets(state);
+  if (!(await fileExists(dir))) {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+  }
+  const mapping = new Map<string, string>();
+  for (const uri of stateUris(state)) {
+    if (uri.startsWith(dir)) continue;
+    const source = await FileSystem.getInfoAsync(uri).catch(() => null);
+    if (!source?.exists) continue;
+    let target = dir + assetName(uri);
+    const existing = await FileSystem.getInfoAsync(target);
+    // Same name and size is the copy from an earlier save; anything else is a name clash
+    if (existing.exists && existing.size !== source.size) {
+      target = target.replace(/(\.[a-z0-9]+)$/i, `-${Date.now()}$1`);
+    }
+    if (!existing.exists || target !== dir + assetName(uri)) {
+      await FileSystem.copyAsync({ from: uri, to: target });
+    }
+    mapping.set(uri, target);
+  }
+  const next = mapStateUris(state, (uri) => mapping.get(uri) ?? uri);
+
+  const keep = new Set(stateUris(next));
+  try {
+    for (const name of await FileSystem.readDirectoryAsync(dir)) {
+      if (!keep.has(dir + name)) {
+        await FileSystem.deleteAsync(dir + name, { idempotent: true });
+      }
+    }
+  } catch {
+    // ignore cleanup errors
+  }
+  return next;
+}
+
+function adoptSessionAssets(id: number, state: EditorState) {
+  return adoptAssets(sessionDir(id), state);
+}
+
+export type SessionFiling = {
+  collectionId?: number | null;
+  tags?: string[];
+};
+
+export async function saveSession(
+  name: string,
+  state: EditorState,
+  previewUri?: string | null,
+  filing: SessionFiling = {}
+) {
+  const store = getSessionStore();
+  const now = Date.now();
+  const id = await store.insert({
+    name,
+    created_at: now,
+    updated_at: now,
+    preview_uri: previewUri ? await toDataUri(previewUri) : null,
+    state_json: JSON.stringify({ ...state, version: STATE_VERSION }),
+    collection_id: filing.collectionId ?? null,
+  });
+  const tags = normalizeTags(filing.tags ?? []);
+  if (tags.length) await store.setTags(id, tags);
+  // The folder is keyed by row id, so assets are adopted once the row exists
+  const owned = await adoptSessionAssets(id, state);
+  await store.update(id, { state_json: JSON.stringify({ ...owned, version: STATE_VERSION }) });
+  return id;
+}
+
+export async function listSessions(query?: SessionQuery): Promise<SessionRow[]> {
+  return getSessionStore().list(query);
 }
 
 export async function getSession(id: number): Promise<SessionRow | null> {
-  if (Platform.OS === 'web') {
-    return null;
+  const row = await getSessionStore().get(id);
+  if (!row) return null;
+  // Callers always see the current EditorState shape; the row is rewritten on the next save
+  return { ...row, state_json: JSON.stringify(upgradeState(JSON.parse(row.state_json))) };
+}
+
+async function deleteFile(uri: string | null | undefined) {
+  if (!uri || Platform.OS === 'web') return;
+  try {
+    const info = await FileSystem.getInfoAsync(uri);
+    if (info.exists) {
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+    }
+  } catch {
+    // ignore file delete errors
   }
-  const database = await getDb();
-  const row = await database.getFirstAsync<SessionRow>(
-    'SELECT id, name, created_at, preview_uri, state_json FROM sessions WHERE id = ? LIMIT 1',
-    [id]
-  );
-  return row ?? null;
 }
 
 export async function updateSession(id: number, state: EditorState, previewUri?: string | null) {
-  if (Platform.OS === 'web') {
-    throw new Error('Updating sessions is not supported on web.');
-  }
-  const database = await getDb();
-  const stateJson = JSON.stringify(state);
+  const store = getSessionStore();
+  const stateJson = JSON.stringify({ ...(await adoptSessionAssets(id, state)), version: STATE_VERSION });
+  const updatedAt = Date.now();
 
   // If previewUri is undefined, keep existing preview and only update state
   if (typeof previewUri === 'undefined') {
-    await database.runAsync(
-      'UPDATE sessions SET state_json = ? WHERE id = ?',
-      [stateJson, id]
-    );
+    await store.update(id, { state_json: stateJson, updated_at: updatedAt });
     return;
   }
 
   // If a new preview path is provided, update it and clean up the old file
   if (previewUri) {
-    const old = await database.getFirstAsync<{ preview_uri: string | null }>(
-      'SELECT preview_uri FROM sessions WHERE id = ? LIMIT 1',
-      [id]
-    );
-    await database.runAsync(
-      'UPDATE sessions SET state_json = ?, preview_uri = ? WHERE id = ?',
-      [stateJson, previewUri, id]
-    );
+    const old = await store.get(id);
+    await store.update(id, { state_json: stateJson, preview_uri: await toDataUri(previewUri), updated_at: updatedAt });
     // Best-effort delete of the previous preview if it exists and differs
-    const oldUri = old?.preview_uri;
-    if (oldUri && oldUri !== previewUri) {
+    if (old?.preview_uri !== previewUri) {
+      await deleteFile(old?.preview_uri);
+    }
+    return;
+  }
+
+  // If null explicitly passed, clear the preview
+  await store.update(id, { state_json: stateJson, preview_uri: null, updated_at: updatedAt });
+}
+
+export async function renameSession(id: number, name: string) {
+  await getSessionStore().update(id, { name, updated_at: Date.now() });
+}
+
+// Deep copy: the new row gets its own image folder and preview file
+export async function duplicateSession(id: number, name?: string): Promise<number> {
+  const row = await getSession(id);
+  if (!row) throw new Error('Session not found');
+  let previewUri = row.preview_uri;
+  if (previewUri && Platform.OS !== 'web') {
+    try {
+      const ext = previewUri.split('.').pop() || 'png';
+      const out = `${await ensurePreviewDir()}preview-${Date.now()}.${ext}`;
+      await FileSystem.copyAsync({ from: previewUri, to: out });
+      previewUri = out;
+    } catch {
+      previewUri = null;
+    }
+  }
+  // saveSession copies the images into the new session's folder
+  return saveSession(name ?? `${row.name} copy`, JSON.parse(row.state_json), previewUri, {
+    collectionId: row.collection_id,
+    tags: await getSessionStore().getTags(id),
+  });
+}
+
+// Trashed sessions are purged this long after deletion
+export const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// A draft of a deleted session would otherwise be recovered into a row that's gone or in the trash
+async function discardDraftOf(ids: number[]) {
+  const owner = (await getSessionStore().getDraft())?.session_id;
+  if (owner != null && ids.includes(owner)) {
+    await discardDraft();
+  }
+}
+
+// Soft delete: the rows keep their files and can be restored until purged
+export async function trashSessions(ids: number[]) {
+  if (!ids.length) return;
+  await getSessionStore().setDeleted(ids, Date.now());
+  await discardDraftOf(ids);
+}
+
+export async function restoreSessions(ids: number[]) {
+  await getSessionStore().setDeleted(ids, null);
+}
+
+/**
+ * Permanently deletes the rows in one transaction, then removes their image folders and preview
+ * files. Files are only touched once the rows are gone, so a failed purge leaves every session intact.
+ */
+export async function purgeSessions(ids: number[]) {
+  if (!ids.length) return;
+  const store = getSessionStore();
+  // Get preview uris to delete the files once the rows are gone
+  const rows = await Promise.all(ids.map((id) => store.get(id)));
+  await store.remove(ids);
+  await discardDraftOf(ids);
+  for (const [i, id] of ids.entries()) {
+    if (Platform.OS !== 'web') {
       try {
-        const info = await FileSystem.getInfoAsync(oldUri);
-        if (info.exists) {
-          await FileSystem.deleteAsync(oldUri, { idempotent: true });
-        }
+        await FileSystem.deleteAsync(sessionDir(id), { idempotent: true });
       } catch {
         // ignore file delete errors
       }
     }
-    return;
+    await deleteFile(rows[i]?.preview_uri);
   }
+}
 
-  // If null explicitly passed, clear the preview
-  await database.runAsync(
-    'UPDATE sessions SET state_json = ?, preview_uri = NULL WHERE id = ?',
-    [stateJson, id]
-  );
-}
-
-export async function deleteSession(id: number) {
-  if (Platform.OS === 'web') {
-    throw new Error('Deleting sessions is not supported on web.');
-  }
-  const database = await getDb();
-  // Get preview uri to delete the file if exists
-  const row = await database.getFirstAsync<{ preview_uri: string | null }>(
-    'SELECT preview_uri FROM sessions WHERE id = ? LIMIT 1',
-    [id]
-  );
-  await database.runAsync('DELETE FROM sessions WHERE id = ?', [id]);
-  const preview = row?.preview_uri;
-  if (preview) {
+// Run on launch; returns how many sessions were purged
+export async function purgeExpiredTrash(now = Date.now()): Promise<number> {
+  const trashed = await getSessionStore().list({ trashed: true });
+  const expired = trashed.filter((r) => r.deleted_at != null && now - r.deleted_at >= TRASH_RETENTION_MS);
+  await purgeSessions(expired.map((r) => r.id));
+  return expired.length;
+}
+
+/**
+ * Every file a session (trashed ones included) or the draft points at. Throws rather than
+ * returning a partial set if a row can't be read, so cleanup never deletes on a guess.
+ */
+export async function referencedFiles(): Promise<string[]> {
+  const store = getSessionStore();
+  const rows = [...(await store.list()), ...(await store.list({ trashed: true }))];
+  const draft = await store.getDraft();
+  const uris: string[] = [];
+  for (const row of rows) {
+    if (row.preview_uri) uris.push(row.preview_uri);
+    uris.push(...stateUris(JSON.parse(row.state_json)));
+  }
+  if (draft) uris.push(...stateUris(JSON.parse(draft.state_json)));
+  return uris;
+}
+
+export async function listCollections(): Promise<CollectionRow[]> {
+  return getSessionStore().listCollections();
+}
+
+export async function createCollection(name: string): Promise<number> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Collection name is empty');
+  return getSessionStore().insertCollection(trimmed);
+}
+
+// Sessions in the collection are kept and become unfiled
+export async function deleteCollection(id: number) {
+  await getSessionStore().removeCollection(id);
+}
+
+// Filing isn't an edit, so updated_at is left alone
+export async function setSessionCollection(id: number, collectionId: number | null) {
+  await getSessionStore().update(id, { collection_id: collectionId });
+}
+
+export async function moveSessions(ids: number[], collectionId: number | null) {
+  for (const id of ids) {
+    await setSessionCollection(id, collectionId);
+  }
+}
+
+// Trims, drops empties and removes case-insensitive duplicates, keeping the first spelling
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/^#/, '').replace(/\s+/g, ' ');
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    out.push(tag);
+  }
+  return out;
+}
+
+// Comma-separated input, as typed in the tag fields
+export const parseTags = (text: string) => normalizeTags(text.split(','));
+
+export async function getSessionTags(id: number): Promise<string[]> {
+  return getSessionStore().getTags(id);
+}
+
+export async function setSessionTags(id: number, tags: string[]) {
+  await getSessionStore().setTags(id, normalizeTags(tags));
+}
+
+// Adds to each session's existing tags rather than replacing them
+export async function addSessionTags(ids: number[], tags: string[]) {
+  const store = getSessionStore();
+  for (const id of ids) {
+    await store.setTags(id, normalizeTags([...(await store.getTags(id)), ...tags]));
+  }
+}
+
+export async function listTags(): Promise<string[]> {
+  return getSessionStore().listTags();
+}
+
+export type AssetCheck = 'ok' | 'repaired' | 'broken';
+
+/**
+ * Makes sure a session's images exist and live in its folder. Older sessions pointing at
+ * cache files get adopted; a missing working image falls back to the original (dropping
+ * strokes, which were placed on the cropped image) and vice versa. 'broken' means neither
+ * image survives and the session needs a replacement via relinkSessionImage.
+ */
+export async function repairSessionAssets(id: number): Promise<AssetCheck> {
+  const row = await getSession(id);
+  if (!row) return 'broken';
+  // Web sessions carry their images inline
+  if (Platform.OS === 'web') return 'ok';
+  const state: EditorState = JSON.parse(row.state_json);
+  const hasOriginal = await fileExists(state.originalUri);
+  const hasCurrent = await fileExists(state.currentUri);
+  if (!hasOriginal && !hasCurrent) return 'broken';
+
+  let next = state;
+  let repaired = false;
+  if (!hasCurrent) {
+    next = { ...next, currentUri: next.originalUri, strokes: [], history: undefined };
+    repaired = true;
+  } else if (!hasOriginal) {
+    next = { ...next, originalUri: next.currentUri };
+    repaired = true;
+  }
+  // A lost compare photo only takes the comparison with it
+  if (next.compare && !(await fileExists(next.compare.uri))) {
+    next = { ...next, compare: undefined };
+    repaired = true;
+  }
+  // Undo steps back to purged images can't be replayed
+  const uris = stateUris(next);
+  const present = await Promise.all(uris.map(fileExists));
+  if (next.history && present.some((ok) => !ok)) {
+    next = { ...next, history: undefined };
+    repaired = true;
+  }
+  const adopted = uris.some((uri) => !uri.startsWith(sessionDir(id)));
+  if (repaired || adopted) {
+    // Housekeeping on open isn't an edit, so updated_at is left alone
+    const owned = await adoptSessionAssets(id, next);
+    await getSessionStore().update(id, { state_json: JSON.stringify({ ...owned, version: STATE_VERSION }) });
+  }
+  return repaired ? 'repaired' : 'ok';
+}
+
+// Points a broken session at a new image; annotations made on the lost image are dropped
+export async function relinkSessionImage(id: number, uri: string) {
+  const row = await getSession(id);
+  if (!row) throw new Error('Session not found');
+  const state: EditorState = JSON.parse(row.state_json);
+  await updateSession(id, { ...state, originalUri: uri, currentUri: uri, strokes: [], history: undefined });
+}
+
+// Drafts get their own copies too, since unsaved work usually points at picker cache files
+function draftDir() {
+  return `${FileSystem.documentDirectory}draft/`;
+}
+
+export async function saveDraft(state: EditorState, sessionId: number | null = null) {
+  const owned = await adoptAssets(draftDir(), state);
+  await getSessionStore().putDraft({
+    session_id: sessionId,
+    state_json: JSON.stringify({ ...owned, version: STATE_VERSION }),
+    updated_at: Date.now(),
+  });
+}
+
+export async function getDraft(): Promise<DraftRow | null> {
+  const draft = await getSessionStore().getDraft();
+  if (!draft) return null;
+  return { ...draft, state_json: JSON.stringify(upgradeState(JSON.parse(draft.state_json))) };
+}
+
+/**
+ * Drops the autosave slot. Draft files stay until the next draft or discardDraft, since an
+ * open editor that recovered the draft may still be showing them.
+ */
+export async function clearDraft() {
+  await getSessionStore().clearDraft();
+}
+
+export async function discardDraft() {
+  await clearDraft();
+  if (Platform.OS !== 'web') {
     try {
-      const info = await FileSystem.getInfoAsync(preview);
-      if (info.exists) {
-        await FileSystem.deleteAsync(preview, { idempotent: true });
-      }
+      await FileSystem.deleteAsync(draftDir(), { idempotent: true });
     } catch {
       // ignore file delete errors
     }
@@ -0,0 +1,80 @@
+import { createMemoryStore } from '@/lib/storage/memory';
+import type { NewSessionRow } from '@/lib/storage/types';
+
+const newRow = (name: string, created_at = 1000): NewSessionRow => ({
+  name,
+  created_at,
+  updated_at: created_at,
+  preview_uri: null,
+  state_json: '{}',
+  collection_id: null,
+});
+
+describe('createMemoryStore', () => {
+  it('saves sessions with increasing ids', async () => {
+    const store = createMemoryStore();
+    const first = await store.insert(newRow('First'));
+    const second = await store.insert(newRow('Second', 2000));
+    expect(second).toBeGreaterThan(first);
+    expect(await store.get(first)).toMatchObject({ id: first, name: 'First', deleted_at: null });
+    expect((await store.list()).map((r) => r.name)).toEqual(['Second', 'First']);
+  });
+
+  it('continues ids after the initial rows', async () => {
+    const store = createMemoryStore([{ ...newRow('Old'), id: 41, deleted_at: null }]);
+    expect(await store.insert(newRow('New'))).toBe(42);
+  });
+
+  it('returns copies, not the stored rows', async () => {
+    const store = createMemoryStore();
+    const id = await store.insert(newRow('Original'));
+    const row = await store.get(id);
+    row!.name = 'Changed';
+    expect((await store.get(id))!.name).toBe('Original');
+  });
+
+  it('updates only the fields that are set', async () => {
+    const store = createMemoryStore();
+    const id = await store.insert(newRow('Before'));
+    await store.update(id, { name: 'After', preview_uri: undefined, updated_at: 5000 });
+    expect(await store.get(id)).toMatchObject({ name: 'After', preview_uri: null, updated_at: 5000, created_at: 1000 });
+    await store.update(999, { name: 'Missing' });
+    expect(await store.get(999)).toBeNull();
+  });
+
+  it('moves sessions to the trash and back', async () => {
+    const store = createMemoryStore();
+    const id = await store.insert(newRow('Sketch'));
+    await store.setTags(id, ['Warm']);
+
+    await store.setDeleted([id], 3000);
+    expect(await store.list()).toEqual([]);
+    expect(await store.list({ trashed: true })).toMatchObject([{ id, deleted_at: 3000 }]);
+    expect(await store.listTags()).toEqual([]);
+
+    await store.setDeleted([id], null);
+    expect(await store.list()).toMatchObject([{ id, deleted_at: null }]);
+    expect(await store.listTags()).toEqual(['Warm']);
+  });
+
+  it('purges rows together with their tags', async () => {
+    const store = createMemoryStore();
+    const kept = await store.insert(newRow('Kept'));
+    const purged = await store.insert(newRow('Purged'));
+    await store.setTags(purged, ['Gone']);
+    await store.setDeleted([purged], 3000);
+
+    await store.remove([purged]);
+    expect(await store.get(purged)).toBeNull();
+    expect(await store.getTags(purged)).toEqual([]);
+    expect((await store.list()).map((r) => r.id)).toEqual([kept]);
+  });
+
+  it('filters the list by tag', async () => {
+    const store = createMemoryStore();
+    const tagged = await store.insert(newRow('Tagged'));
+    await store.insert(newRow('Untagged'));
+    await store.setTags(tagged, ['Still Life']);
+    expect((await store.list({ tag: ' still life' })).map((r) => r.id)).toEqual([tagged]);
+  });
+});
@@ -0,0 +1,61 @@
+import { applySessionQuery } from '@/lib/storage/query';
+import type { SessionRow } from '@/lib/storage/types';
+
+const row = (id: number, fields: Partial<SessionRow> = {}): SessionRow => ({
+  id,
+  name: `Session ${id}`,
+  created_at: id * 1000,
+  updated_at: id * 1000,
+  preview_uri: null,
+  state_json: '{}',
+  collection_id: null,
+  deleted_at: null,
+  ...fields,
+});
+
+const ids = (rows: SessionRow[]) => rows.map((r) => r.id);
+
+describe('applySessionQuery', () => {
+  const rows = [
+    row(1, { name: 'Portrait', updated_at: 9000 }),
+    row(2, { name: 'apple still life', state_json: JSON.stringify({ noteText: 'Warm light' }) }),
+    row(3, { name: 'Landscape', collection_id: 7 }),
+    row(4, { name: 'Binned', deleted_at: 5000 }),
+    row(5, { name: 'Also binned', deleted_at: 8000 }),
+  ];
+
+  it('lists live sessions newest first by default', () => {
+    expect(ids(applySessionQuery(rows))).toEqual([3, 2, 1]);
+  });
+
+  it('sorts by each order', () => {
+    expect(ids(applySessionQuery(rows, { sort: 'oldest' }))).toEqual([1, 2, 3]);
+    expect(ids(applySessionQuery(rows, { sort: 'edited' }))).toEqual([1, 3, 2]);
+    expect(ids(applySessionQuery(rows, { sort: 'name' }))).toEqual([2, 3, 1]);
+  });
+
+  it('lists only the trash, most recently trashed first', () => {
+    expect(ids(applySessionQuery(rows, { trashed: true, sort: 'deleted' }))).toEqual([5, 4]);
+  });
+
+  it('searches names and note text case-insensitively', () => {
+    expect(ids(applySessionQuery(rows, { search: '  PORTRAIT ' }))).toEqual([1]);
+    expect(ids(applySessionQuery(rows, { search: 'warm' }))).toEqual([2]);
+    expect(applySessionQuery(rows, { search: 'binned' })).toEqual([]);
+  });
+
+  it('ignores unreadable state when searching notes', () => {
+    expect(ids(applySessionQuery([row(1, { state_json: 'not json' })], { search: 'x' }))).toEqual([]);
+  });
+
+  it('filters by collection and by the tagged ids', () => {
+    expect(ids(applySessionQuery(rows, { collectionId: 7 }))).toEqual([3]);
+    expect(ids(applySessionQuery(rows, { tag: 'sketch' }, new Set([1, 4])))).toEqual([1]);
+    expect(applySessionQuery(rows, { tag: 'sketch' })).toEqual([]);
+  });
+
+  it('pages after sorting', () => {
+    expect(ids(applySessionQuery(rows, { sort: 'oldest', offset: 1, limit: 1 }))).toEqual([2]);
+    expect(ids(applySessionQuery(rows, { sort: 'oldest', offset: 2 }))).toEqual([3]);
+  });
+});
@@ -0,0 +1,36 @@
+import { Platform } from 'react-native';
+
+import { createIndexedDbStore } from '@/lib/storage/indexeddb';
+import { createMemoryStore } from '@/lib/storage/memory';
+import { createSqliteStore } from '@/lib/storage/sqlite';
+import type { SessionStore } from '@/lib/storage/types';
+
+export type {
+  CollectionRow,
+  DraftRow,
+  NewSessionRow,
+  SessionPatch,
+  SessionQuery,
+  SessionRow,
+  SessionSort,
+  SessionStore,
+} from '@/lib/storage/types';
+export { createIndexedDbStore, createMemoryStore, createSqliteStore };
+
+let store: SessionStore | null = null;
+
+function defaultStore(): SessionStore {
+  if (Platform.OS !== 'web') return createSqliteStore();
+  // Static rendering runs without a browser
+  return typeof indexedDB !== 'undefined' ? createIndexedDbStore() : createMemoryStore();
+}
+
+export function getSessionStore(): SessionStore {
+  if (!store) store = defaultStore();
+  return store;
+}
+
+// Swap the backend, e.g. an in-memory store in tests
+export function setSessionStore(next: SessionStore | null) {
+  store = next;
+}
@@ -0,0 +1,217 @@
+import { applySessionQuery, sortTags, tagKey } from '@/lib/storage/query';
+import type { CollectionRow, DraftRow, SessionRow, SessionStore } from '@/lib/storage/types';
+
+const DB_NAME = 'chromaframe';
+const STORE = 'sessions';
+const DRAFTS = 'drafts';
+const COLLECTIONS = 'collections';
+// One record per (session, tag); `key` is the lowercased tag used for matching
+const TAGS = 'tags';
+
+type TagRecord = { session_id: number; key: string; tag: string };
+// The autosave slot's fixed key
+const DRAFT_KEY = 1;
+// Bump together with a new step in onupgradeneeded
+const DB_VERSION = 4;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDb(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(name, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('created_at', 'created_at');
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(DRAFTS);
+      }
+      if (event.oldVersion >= 1 && event.oldVersion < 3) {
+        // Backfill updated_at on rows saved before it existed
+        const cursorReq = req.transaction!.objectStore(STORE).openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return;
+          if (typeof cursor.value.updated_at !== 'number') {
+            cursor.update({ ...cursor.value, updated_at: cursor.value.created_at });
+          }
+          cursor.continue();
+        };
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(COLLECTIONS, { keyPath: 'id', autoIncrement: true });
+        const tags = db.createObjectStore(TAGS, { keyPath: ['session_id', 'key'] });
+        tags.createIndex('session_id', 'session_id');
+        tags.createIndex('key', 'key');
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => reject(new Error('Session database is open in another tab with an older version.'));
+  });
+}
+
+// Web backend; images are kept as data URIs inside state_json since there is no app file system
+export function createIndexedDbStore(name = DB_NAME): SessionStore {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const objectStore = async (mode: IDBTransactionMode, storeName = STORE) => {
+    if (!dbPromise) dbPromise = openDb(name);
+    const db = await dbPromise;
+    return db.transaction(storeName, mode).objectStore(storeName);
+  };
+
+  const transaction = async (storeNames: string[], mode: IDBTransactionMode) => {
+    if (!dbPromise) dbPromise = openDb(name);
+    return (await dbPromise).transaction(storeNames, mode);
+  };
+
+  // Rows saved before collections and the trash existed lack those fields
+  const normalize = (row: SessionRow): SessionRow => ({
+    ...row,
+    collection_id: row.collection_id ?? null,
+    deleted_at: row.deleted_at ?? null,
+  });
+
+  return {
+    async insert(row) {
+      const store = await objectStore('readwrite');
+      // Omitting id lets the key generator assign it
+      return Number(await request(store.add({ ...row, deleted_at: null })));
+    },
+
+    async list(query) {
+      const store = await objectStore('readonly');
+      const rows = await request(store.getAll() as IDBRequest<SessionRow[]>);
+      let tagged: Set<number> | undefined;
+      if (query?.tag) {
+        const index = (await objectStore('readonly', TAGS)).index('key');
+        const matches = await request(index.getAll(tagKey(query.tag)) as IDBRequest<TagRecord[]>);
+        tagged = new Set(matches.map((t) => t.session_id));
+      }
+      return applySessionQuery(rows.map(normalize), query, tagged);
+    },
+
+    async get(id) {
+      const store = await objectStore('readonly');
+      const row = await request(store.get(id) as IDBRequest<SessionRow | undefined>);
+      return row ? normalize(row) : null;
+    },
+
+    async update(id, patch) {
+      const store = await objectStore('readwrite');
+      const row = await request(store.get(id) as IDBRequest<SessionRow | undefined>);
+      if (!row) return;
+      const defined = Object.fromEntries(Object.entries(patch).filter(([, v]) => typeof v !== 'undefined'));
+      await request(store.put({ ...row, ...defined }));
+    },
+
+    async remove(ids) {
+      if (!ids.length) return;
+      const tx = await transaction([STORE, TAGS], 'readwrite');
+      for (const id of ids) {
+        tx.objectStore(STORE).delete(id);
+        tx.objectStore(TAGS).delete(IDBKeyRange.bound([id], [id, []]));
+      }
+      await done(tx);
+    },
+
+    async setDeleted(ids, deletedAt) {
+      if (!ids.length) return;
+      const tx = await transaction([STORE], 'readwrite');
+      const store = tx.objectStore(STORE);
+      for (const id of ids) {
+        const req = store.get(id);
+        req.onsuccess = () => {
+          if (req.result) store.put({ ...req.result, deleted_at: deletedAt });
+        };
+      }
+      await done(tx);
+    },
+
+    async listCollections() {
+      const store = await objectStore('readonly', COLLECTIONS);
+      const rows = await request(store.getAll() as IDBRequest<CollectionRow[]>);
+      return rows.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    },
+
+    async insertCollection(collectionName) {
+      const store = await objectStore('readwrite', COLLECTIONS);
+      return Number(await request(store.add({ name: collectionName, created_at: Date.now() })));
+    },
+
+    async removeCollection(id) {
+      const tx = await transaction([STORE, COLLECTIONS], 'readwrite');
+      tx.objectStore(COLLECTIONS).delete(id);
+      const cursorReq = tx.objectStore(STORE).openCursor();
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return;
+        if (cursor.value.collection_id === id) cursor.update({ ...cursor.value, collection_id: null });
+        cursor.continue();
+      };
+      await done(tx);
+    },
+
+    async getTags(sessionId) {
+      const index = (await objectStore('readonly', TAGS)).index('session_id');
+      const rows = await request(index.getAll(sessionId) as IDBRequest<TagRecord[]>);
+      return sortTags(rows.map((t) => t.tag));
+    },
+
+    async setTags(sessionId, tags) {
+      const tx = await transaction([TAGS], 'readwrite');
+      const store = tx.objectStore(TAGS);
+      store.delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+      for (const tag of tags) {
+        store.put({ session_id: sessionId, key: tagKey(tag), tag } satisfies TagRecord);
+      }
+      await done(tx);
+    },
+
+    async listTags() {
+      const tx = await transaction([STORE, TAGS], 'readonly');
+      const [sessions, rows] = await Promise.all([
+        request(tx.objectStore(STORE).getAll() as IDBRequest<SessionRow[]>),
+        request(tx.objectStore(TAGS).getAll() as IDBRequest<TagRecord[]>),
+      ]);
+      const live = new Set(sessions.filter((r) => r.deleted_at == null).map((r) => r.id));
+      const byKey = new Map<string, string>();
+      for (const t of rows) {
+        if (live.has(t.session_id) && !byKey.has(t.key)) byKey.set(t.key, t.tag);
+      }
+      return sortTags([...byKey.values()]);
+    },
+
+    async getDraft() {
+      const store = await objectStore('readonly', DRAFTS);
+      const draft = await request(store.get(DRAFT_KEY) as IDBRequest<DraftRow | undefined>);
+      return draft ?? null;
+    },
+
+    async putDraft(draft) {
+      const store = await objectStore('readwrite', DRAFTS);
+      await request(store.put({ ...draft }, DRAFT_KEY));
+    },
+
+    async clearDraft() {
+      const store = await objectStore('readwrite', DRAFTS);
+      await request(store.delete(DRAFT_KEY));
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { applySessionQuery, sortTags, tagKey } from '@/lib/storage/query';
+import type { CollectionRow, DraftRow, SessionRow, SessionStore } from '@/lib/storage/types';
+
+// Non-persistent backend for tests and for environments without IndexedDB
+export function createMemoryStore(initial: SessionRow[] = []): SessionStore {
+  const rows = new Map<number, SessionRow>(initial.map((r) => [r.id, { ...r }]));
+  let nextId = Math.max(0, ...initial.map((r) => r.id)) + 1;
+  let draft: DraftRow | null = null;
+  const collections = new Map<number, CollectionRow>();
+  let nextCollectionId = 1;
+  const tags = new Map<number, string[]>();
+
+  return {
+    async insert(row) {
+      const id = nextId++;
+      rows.set(id, { ...row, id, deleted_at: null });
+      return id;
+    },
+
+    async list(query) {
+      const key = query?.tag ? tagKey(query.tag) : null;
+      const tagged = key
+        ? new Set([...tags].filter(([, t]) => t.some((x) => tagKey(x) === key)).map(([id]) => id))
+        : undefined;
+      return applySessionQuery([...rows.values()], query, tagged).map((r) => ({ ...r }));
+    },
+
+    async get(id) {
+      const row = rows.get(id);
+      return row ? { ...row } : null;
+    },
+
+    async update(id, patch) {
+      const row = rows.get(id);
+      if (!row) return;
+      const defined = Object.fromEntries(Object.entries(patch).filter(([, v]) => typeof v !== 'undefined'));
+      rows.set(id, { ...row, ...defined });
+    },
+
+    async remove(ids) {
+      for (const id of ids) {
+        rows.delete(id);
+        tags.delete(id);
+      }
+    },
+
+    async setDeleted(ids, deletedAt) {
+      for (const id of ids) {
+        const row = rows.get(id);
+        if (row) row.deleted_at = deletedAt;
+      }
+    },
+
+    async listCollections() {
+      return [...collections.values()].map((c) => ({ ...c })).sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async insertCollection(name) {
+      const id = nextCollectionId++;
+      collections.set(id, { id, name, created_at: Date.now() });
+      return id;
+    },
+
+    async removeCollection(id) {
+      collections.delete(id);
+      for (const row of rows.values()) {
+        if (row.collection_id === id) row.collection_id = null;
+      }
+    },
+
+    async getTags(sessionId) {
+      return [...(tags.get(sessionId) ?? [])];
+    },
+
+    async setTags(sessionId, next) {
+      if (next.length) tags.set(sessionId, [...next]);
+      else tags.delete(sessionId);
+    },
+
+    async listTags() {
+      const byKey = new Map<string, string>();
+      const live = [...tags].filter(([id]) => rows.get(id)?.deleted_at == null).map(([, t]) => t);
+      for (const t of live.flat()) {
+        if (!byKey.has(tagKey(t))) byKey.set(tagKey(t), t);
+      }
+      return sortTags([...byKey.values()]);
+    },
+
+    async getDraft() {
+      return draft ? { ...draft } : null;
+    },
+
+    async putDraft(next) {
+      draft = { ...next };
+    },
+
+    async clearDraft() {
+      draft = null;
+    },
+  };
+}
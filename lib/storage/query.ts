@@ -0,0 +1,40 @@
+import type { SessionQuery, SessionRow } from '@/lib/storage/types';
+
+export const tagKey = (tag: string) => tag.trim().toLowerCase();
+
+export const sortTags = (tags: string[]) =>
+  [...tags].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+
+const noteText = (row: SessionRow): string => {
+  try {
+    return JSON.parse(row.state_json)?.noteText ?? '';
+  } catch {
+    return '';
+  }
+};
+
+const COMPARE: Record<NonNullable<SessionQuery['sort']>, (a: SessionRow, b: SessionRow) => number> = {
+  newest: (a, b) => b.created_at - a.created_at,
+  oldest: (a, b) => a.created_at - b.created_at,
+  edited: (a, b) => b.updated_at - a.updated_at,
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }),
+  deleted: (a, b) => (b.deleted_at ?? 0) - (a.deleted_at ?? 0),
+};
+
+/**
+ * In-memory filtering, sort and paging for backends without a query engine. `tagged` holds the
+ * ids of sessions carrying `query.tag`, looked up by the backend.
+ */
+export function applySessionQuery(rows: SessionRow[], query: SessionQuery = {}, tagged?: Set<number>): SessionRow[] {
+  const needle = query.search?.trim().toLowerCase();
+  const matched = rows.filter(
+    (r) =>
+      (r.deleted_at != null) === !!query.trashed &&
+      (typeof query.collectionId !== 'number' || r.collection_id === query.collectionId) &&
+      (!query.tag || !!tagged?.has(r.id)) &&
+      (!needle || r.name.toLowerCase().includes(needle) || noteText(r).toLowerCase().includes(needle))
+  );
+  const sorted = [...matched].sort(COMPARE[query.sort ?? 'newest']);
+  const offset = query.offset ?? 0;
+  return typeof query.limit === 'number' ? sorted.slice(offset, offset + query.limit) : sorted.slice(offset);
+}
@@ -0,0 +1,202 @@
+import { openDatabaseAsync, type SQLiteDatabase } from 'expo-sqlite';
+
+import { migrateDb } from '@/lib/migrations';
+import type {
+  CollectionRow,
+  DraftRow,
+  SessionPatch,
+  SessionRow,
+  SessionSort,
+  SessionStore,
+} from '@/lib/storage/types';
+
+const DB_NAME = 'chromaframe.db';
+const COLUMNS = 'id, name, created_at, updated_at, preview_uri, state_json, collection_id, deleted_at';
+const PATCH_KEYS: (keyof SessionPatch)[] = [
+  'name',
+  'preview_uri',
+  'state_json',
+  'updated_at',
+  'collection_id',
+  'deleted_at',
+];
+
+const ORDER_BY: Record<SessionSort, string> = {
+  newest: 'created_at DESC',
+  oldest: 'created_at ASC',
+  edited: 'updated_at DESC',
+  name: 'name COLLATE NOCASE ASC',
+  deleted: 'deleted_at DESC',
+};
+
+// LIKE treats % and _ as wildcards; match them literally in user input
+const likePattern = (s: string) => `%${s.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+// Native backend on expo-sqlite; the schema is kept current by migrateDb
+export function createSqliteStore(name = DB_NAME): SessionStore {
+  let dbPromise: Promise<SQLiteDatabase> | null = null;
+
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = (async () => {
+        const database = await openDatabaseAsync(name);
+        await migrateDb(database);
+        return database;
+      })();
+    }
+    return dbPromise;
+  };
+
+  return {
+    async insert(row) {
+      const database = await getDb();
+      const res = await database.runAsync(
+        `INSERT INTO sessions (name, created_at, updated_at, preview_uri, state_json, collection_id)
+          VALUES (?, ?, ?, ?, ?, ?)`,
+        [row.name, row.created_at, row.updated_at, row.preview_uri, row.state_json, row.collection_id]
+      );
+      return Number(res.lastInsertRowId ?? 0);
+    },
+
+    async list(query = {}) {
+      const database = await getDb();
+      const where: string[] = [query.trashed ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL'];
+      const params: (string | number)[] = [];
+      const search = query.search?.trim();
+      if (search) {
+        where.push(`(name LIKE ? ESCAPE '\\' OR json_extract(state_json, '$.noteText') LIKE ? ESCAPE '\\')`);
+        params.push(likePattern(search), likePattern(search));
+      }
+      if (typeof query.collectionId === 'number') {
+        where.push('collection_id = ?');
+        params.push(query.collectionId);
+      }
+      if (query.tag?.trim()) {
+        // session_tags.tag is declared COLLATE NOCASE
+        where.push('EXISTS (SELECT 1 FROM session_tags t WHERE t.session_id = sessions.id AND t.tag = ?)');
+        params.push(query.tag.trim());
+      }
+      let sql = `SELECT ${COLUMNS} FROM sessions`;
+      sql += ` WHERE ${where.join(' AND ')}`;
+      sql += ` ORDER BY ${ORDER_BY[query.sort ?? 'newest']}, id DESC`;
+      if (typeof query.limit === 'number') {
+        sql += ' LIMIT ? OFFSET ?';
+        params.push(query.limit, query.offset ?? 0);
+      }
+      const rows = await database.getAllAsync<SessionRow>(sql, params);
+      return rows ?? [];
+    },
+
+    async get(id) {
+      const database = await getDb();
+      const row = await database.getFirstAsync<SessionRow>(
+        `SELECT ${COLUMNS} FROM sessions WHERE id = ? LIMIT 1`,
+        [id]
+      );
+      return row ?? null;
+    },
+
+    async update(id, patch) {
+      const keys = PATCH_KEYS.filter((k) => typeof patch[k] !== 'undefined');
+      if (!keys.length) return;
+      const database = await getDb();
+      await database.runAsync(
+        `UPDATE sessions SET ${keys.map((k) => `${k} = ?`).join(', ')} WHERE id = ?`,
+        [...keys.map((k) => patch[k] ?? null), id]
+      );
+    },
+
+    async remove(ids) {
+      if (!ids.length) return;
+      const database = await getDb();
+      const marks = ids.map(() => '?').join(', ');
+      await database.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync(`DELETE FROM session_tags WHERE session_id IN (${marks})`, ids);
+        await txn.runAsync(`DELETE FROM sessions WHERE id IN (${marks})`, ids);
+      });
+    },
+
+    async setDeleted(ids, deletedAt) {
+      if (!ids.length) return;
+      const database = await getDb();
+      await database.runAsync(
+        `UPDATE sessions SET deleted_at = ? WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        [deletedAt, ...ids]
+      );
+    },
+
+    async listCollections() {
+      const database = await getDb();
+      const rows = await database.getAllAsync<CollectionRow>(
+        'SELECT id, name, created_at FROM collections ORDER BY name COLLATE NOCASE'
+      );
+      return rows ?? [];
+    },
+
+    async insertCollection(collectionName) {
+      const database = await getDb();
+      const res = await database.runAsync('INSERT INTO collections (name, created_at) VALUES (?, ?)', [
+        collectionName,
+        Date.now(),
+      ]);
+      return Number(res.lastInsertRowId ?? 0);
+    },
+
+    async removeCollection(id) {
+      const database = await getDb();
+      await database.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync('UPDATE sessions SET collection_id = NULL WHERE collection_id = ?', [id]);
+        await txn.runAsync('DELETE FROM collections WHERE id = ?', [id]);
+      });
+    },
+
+    async getTags(sessionId) {
+      const database = await getDb();
+      const rows = await database.getAllAsync<{ tag: string }>(
+        'SELECT tag FROM session_tags WHERE session_id = ? ORDER BY tag',
+        [sessionId]
+      );
+      return (rows ?? []).map((r) => r.tag);
+    },
+
+    async setTags(sessionId, tags) {
+      const database = await getDb();
+      await database.withExclusiveTransactionAsync(async (txn) => {
+        await txn.runAsync('DELETE FROM session_tags WHERE session_id = ?', [sessionId]);
+        for (const tag of tags) {
+          await txn.runAsync('INSERT OR IGNORE INTO session_tags (session_id, tag) VALUES (?, ?)', [sessionId, tag]);
+        }
+      });
+    },
+
+    async listTags() {
+      const database = await getDb();
+      const rows = await database.getAllAsync<{ tag: string }>(
+        `SELECT MIN(t.tag) AS tag FROM session_tags t JOIN sessions s ON s.id = t.session_id
+          WHERE s.deleted_at IS NULL GROUP BY t.tag ORDER BY t.tag`
+      );
+      return (rows ?? []).map((r) => r.tag);
+    },
+
+    async getDraft() {
+      const database = await getDb();
+      const row = await database.getFirstAsync<DraftRow>(
+        'SELECT session_id, state_json, updated_at FROM drafts WHERE id = 1'
+      );
+      return row ?? null;
+    },
+
+    async putDraft(draft) {
+      const database = await getDb();
+      await database.runAsync(
+        'INSERT OR REPLACE INTO drafts (id, session_id, state_json, updated_at) VALUES (1, ?, ?, ?)',
+        [draft.session_id, draft.state_json, draft.updated_at]
+      );
+    },
+
+    async clearDraft() {
+      const database = await getDb();
+      await database.runAsync('DELETE FROM drafts');
+    },
+  };
+}
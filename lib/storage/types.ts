@@ -0,0 +1,75 @@
+export type SessionRow = {
+  id: number;
+  name: string;
+  created_at: number;
+  // Last save; equals created_at until the session is updated
+  updated_at: number;
+  preview_uri: string | null;
+  state_json: string;
+  // null when the session isn't filed in a collection
+  collection_id: number | null;
+  // Set while the session is in the trash
+  deleted_at: number | null;
+};
+
+export type NewSessionRow = Omit<SessionRow, 'id' | 'deleted_at'>;
+
+export type SessionPatch = Partial<Pick<SessionRow, 'name' | 'preview_uri' | 'state_json' | 'updated_at' | 'collection_id' | 'deleted_at'>>;
+
+// A named folder of sessions; each session is in at most one
+export type CollectionRow = {
+  id: number;
+  name: string;
+  created_at: number;
+};
+
+// Single autosave slot for unsaved editor work; session_id is null for never-saved images
+export type DraftRow = {
+  session_id: number | null;
+  state_json: string;
+  updated_at: number;
+};
+
+// 'deleted' puts the most recently trashed first
+export type SessionSort = 'newest' | 'oldest' | 'edited' | 'name' | 'deleted';
+
+export type SessionQuery = {
+  // Case-insensitive match on the name or the session's note text
+  search?: string;
+  sort?: SessionSort;
+  // Only sessions in this collection; omitted for all sessions
+  collectionId?: number;
+  // Only sessions carrying this tag, compared case-insensitively
+  tag?: string;
+  // Lists the trash instead of live sessions
+  trashed?: boolean;
+  limit?: number;
+  offset?: number;
+};
+
+/**
+ * Row-level persistence for sessions. Backends only store rows; image files, previews and
+ * EditorState upgrades are handled by lib/sessions on top of this.
+ */
+export type SessionStore = {
+  insert(row: NewSessionRow): Promise<number>;
+  list(query?: SessionQuery): Promise<SessionRow[]>;
+  get(id: number): Promise<SessionRow | null>;
+  update(id: number, patch: SessionPatch): Promise<void>;
+  // Deletes the rows and their tags in one transaction; all or none are removed
+  remove(ids: number[]): Promise<void>;
+  // Moves rows into (a timestamp) or out of (null) the trash in one transaction
+  setDeleted(ids: number[], deletedAt: number | null): Promise<void>;
+  listCollections(): Promise<CollectionRow[]>;
+  insertCollection(name: string): Promise<number>;
+  // Sessions in the collection are kept and become unfiled
+  removeCollection(id: number): Promise<void>;
+  getTags(sessionId: number): Promise<string[]>;
+  // Replaces the session's tags
+  setTags(sessionId: number, tags: string[]): Promise<void>;
+  // Every tag on a session outside the trash, sorted
+  listTags(): Promise<string[]>;
+  getDraft(): Promise<DraftRow | null>;
+  putDraft(draft: DraftRow): Promise<void>;
+  clearDraft(): Promise<void>;
+};
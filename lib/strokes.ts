@@ -0,0 +1,51 @@
+import { Skia } from '@shopify/react-native-skia';
+
+import type { EditorState, EditorStroke } from '@/lib/sessions';
+import {
+  affineScale,
+  affineToMatrix3,
+  applyAffine,
+  imageUnitsToView,
+  invertAffine,
+  scaleAffine,
+  type Affine,
+  type Size,
+} from '@/lib/geometry';
+
+export function transformStroke(stroke: EditorStroke, m: Affine): EditorStroke | null {
+  const path = Skia.Path.MakeFromSVGString(stroke.pathSvg);
+  if (!path) return null;
+  path.transform(affineToMatrix3(m));
+  return { ...stroke, pathSvg: path.toSVGString(), width: stroke.width * affineScale(m) };
+}
+
+// True when strokes or swatch positions still need migrateLegacyStrokes
+export function hasLegacyUnits(state: EditorState): boolean {
+  return (state.strokeUnits !== 'image' && !!state.strokes?.length)
+    || (state.swatchUnits !== 'image' && !!state.swatches?.length);
+}
+
+/**
+ * Upgrades a session saved with strokes or swatch positions in canvas pixels. The stored canvas
+ * size tells us how the working image was laid out when they were placed, so they can be mapped
+ * back onto it. History recorded in canvas pixels spans images of different sizes and is dropped instead.
+ */
+export function migrateLegacyStrokes(state: EditorState, image: Size): EditorState {
+  if (state.strokeUnits === 'image' && state.swatchUnits === 'image') return state;
+  const canvas = state.canvas?.width && state.canvas?.height ? state.canvas : null;
+  const toUnits = canvas ? invertAffine(imageUnitsToView(image, canvas)) : scaleAffine(1 / image.width);
+  let next = state;
+  if (state.strokeUnits !== 'image') {
+    const strokes: EditorStroke[] = [];
+    for (const s of state.strokes ?? []) {
+      const moved = transformStroke(s, toUnits);
+      if (moved) strokes.push(moved);
+    }
+    next = { ...next, strokes, history: undefined, strokeUnits: 'image' };
+  }
+  if (state.swatchUnits !== 'image') {
+    const swatches = (state.swatches ?? []).map((sw) => ({ ...sw, ...applyAffine(toUnits, sw) }));
+    next = { ...next, swatches, swatchUnits: 'image' };
+  }
+  return next;
+}
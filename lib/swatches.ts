@@ -0,0 +1,35 @@
+import type { EditorSwatch } from '@/lib/sessions';
+
+// Unpinned samples beyond this are dropped oldest-first; pinned swatches are never evicted
+export const MAX_SWATCH_HISTORY = 24;
+
+export function makeSwatchId() {
+  return `sw-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function addSwatch(list: EditorSwatch[], swatch: EditorSwatch, limit = MAX_SWATCH_HISTORY): EditorSwatch[] {
+  const next = [...list, swatch];
+  let unpinned = next.filter((s) => !s.pinned).length;
+  if (unpinned <= limit) return next;
+  return next.filter((s) => {
+    if (s.pinned || unpinned <= limit) return true;
+    unpinned--;
+    return false;
+  });
+}
+
+export function togglePinned(list: EditorSwatch[], id: string): EditorSwatch[] {
+  return list.map((s) => (s.id === id ? { ...s, pinned: !s.pinned } : s));
+}
+
+export function removeSwatch(list: EditorSwatch[], id: string): EditorSwatch[] {
+  return list.filter((s) => s.id !== id);
+}
+
+// Pinned first, then most recent first
+export function sortSwatches(list: EditorSwatch[]): EditorSwatch[] {
+  return [...list].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.createdAt - a.createdAt;
+  });
+}
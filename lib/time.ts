@@ -0,0 +1,14 @@
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Short "last edited" label: relative for the past week, a date after that
+export function formatRelativeTime(ts: number, now = Date.now()): string {
+  const diff = now - ts;
+  if (diff < MINUTE) return 'just now';
+  if (diff < HOUR) return `${Math.floor(diff / MINUTE)} min ago`;
+  if (diff < DAY) return `${Math.floor(diff / HOUR)} h ago`;
+  if (diff < 2 * DAY) return 'yesterday';
+  if (diff < 7 * DAY) return `${Math.floor(diff / DAY)} days ago`;
+  return new Date(ts).toLocaleDateString();
+}
@@ -0,0 +1,51 @@
+export type ValueStudyMode = 'color' | 'gray' | 'posterize';
+
+export type ValueStudy = {
+  mode: ValueStudyMode;
+  // Number of value bands when posterizing
+  levels: number;
+};
+
+export const DEFAULT_VALUE_STUDY: ValueStudy = { mode: 'color', levels: 3 };
+export const VALUE_PRESETS = [2, 3, 5];
+export const MIN_VALUE_LEVELS = 2;
+export const MAX_VALUE_LEVELS = 10;
+
+export function clampLevels(n: number) {
+  return Math.max(MIN_VALUE_LEVELS, Math.min(MAX_VALUE_LEVELS, Math.round(n)));
+}
+
+// Quantize a 0–100 value reading into the band it would render as
+export function posterizeValue(value: number, levels: number) {
+  const n = clampLevels(levels);
+  const band = Math.min(n - 1, Math.floor((value / 100) * n));
+  return Math.round((band / (n - 1)) * 100);
+}
+
+// Image filter converting to CIE L* grayscale, optionally snapped into `levels` bands.
+// `levels` < 2 means continuous grayscale.
+export const VALUE_STUDY_SKSL = `
+uniform shader image;
+uniform float levels;
+
+float toLinear(float c) {
+  return c <= 0.04045 ? c / 12.92 : pow((c + 0.055) / 1.055, 2.4);
+}
+
+float toSrgb(float c) {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * pow(c, 1.0 / 2.4) - 0.055;
+}
+
+half4 main(float2 xy) {
+  half4 color = image.eval(xy);
+  float y = 0.2126 * toLinear(color.r) + 0.7152 * toLinear(color.g) + 0.0722 * toLinear(color.b);
+  float l = y > 0.008856 ? 1.16 * pow(y, 1.0 / 3.0) - 0.16 : 9.033 * y;
+  if (levels >= 2.0) {
+    float band = min(levels - 1.0, floor(l * levels));
+    l = band / (levels - 1.0);
+  }
+  float lin = l > 0.08 ? pow((l + 0.16) / 1.16, 3.0) : l / 9.033;
+  float g = clamp(toSrgb(lin), 0.0, 1.0);
+  return half4(g, g, g, color.a);
+}
+`;